@@ -0,0 +1,483 @@
+// src/api.ts
+import { Context } from 'koishi'
+import {} from '@koishijs/console'
+import {} from '@koishijs/plugin-server'
+import { timingSafeEqual } from 'node:crypto'
+import { BotManager } from './bot-manager'
+import { createBotConfigSchema } from './config'
+import { RoomBrowser } from './room-browser'
+import { CharonExport, ImportMode, PersonaTransfer } from './transfer'
+import { validateGenerationParams } from './utils'
+import type { BotPersonaConfig, CharonData } from './types'
+
+/** HTTP 接口的路径前缀 */
+export const API_PREFIX = '/multi-bot-controller-chatluna-charon'
+
+/** 控制台指令的最低权限 */
+const CONSOLE_AUTHORITY = 4
+
+/** 批量修改时可以修改的字段 */
+export type BulkPatch = Partial<Pick<BotPersonaConfig, 'preset' | 'model' | 'chatMode' | 'enabled'>>
+
+/** 修改 room 时可以修改的字段 */
+export interface RoomUpdate {
+  /** 为 room 单独指定的预设，空字符串表示恢复跟随 bot 配置 */
+  preset?: string
+  /** 为 room 单独指定的模型，空字符串表示恢复跟随 bot 配置 */
+  model?: string
+}
+
+/** 导入选项 */
+export interface ImportOptions {
+  mode?: ImportMode
+  /** 只预览变化，不导入 */
+  dryRun?: boolean
+  /** 引用的预设或模型不存在时仍然导入 */
+  force?: boolean
+}
+
+/** 允许批量修改的字段 */
+const BULK_FIELDS: Array<keyof BulkPatch> = ['preset', 'model', 'chatMode', 'enabled']
+
+/** 接口处理结果 */
+interface ApiResult {
+  /** HTTP 状态码 */
+  status: number
+  body: any
+}
+
+declare module '@koishijs/console' {
+  interface Events {
+    'charon/usage'(days?: number): Promise<any>
+    'charon/bot-update'(config: BotPersonaConfig): Promise<any>
+    'charon/bot-delete'(botId: string): Promise<any>
+    'charon/bot-bulk-update'(botIds: string[], patch: BulkPatch): Promise<any>
+    'charon/bot-copy'(sourceBotId: string, targetBotIds: string[]): Promise<any>
+    'charon/rooms'(botId: string): Promise<any>
+    'charon/room-reset'(roomId: number): Promise<any>
+    'charon/room-update'(roomId: number, update: RoomUpdate): Promise<any>
+    'charon/room-delete'(roomId: number): Promise<any>
+    'charon/export'(format?: string): Promise<any>
+    'charon/import'(content: string, options?: ImportOptions): Promise<any>
+  }
+}
+
+/**
+ * Charon 管理接口
+ * 同一套处理逻辑同时提供给 HTTP 接口（需要访问令牌）和控制台（需要控制台登录且权限不低于 4）
+ */
+export class CharonApi {
+  private readonly botConfigSchema = createBotConfigSchema()
+  private readonly rooms: RoomBrowser
+
+  constructor(
+    ctx: Context,
+    private botManager: BotManager,
+    private transfer: PersonaTransfer
+  ) {
+    this.rooms = new RoomBrowser(ctx, botManager)
+  }
+
+  /**
+   * 获取 bot 配置、运行状态、预设和模型列表
+   */
+  getData(): ApiResult {
+    return ok(getCharonData(this.botManager))
+  }
+
+  /**
+   * 获取最近几天按 bot 和模型汇总的用量
+   */
+  async getUsage(days: unknown): Promise<ApiResult> {
+    const usage = this.botManager.usage
+    const range = Math.max(Number(days) || 7, 1)
+    const records = await usage.query(range)
+    const byBot = usage.summarize(records, r => r.botId)
+    const byModel = usage.summarize(records, r => `${r.botId}|${r.model}`)
+
+    return ok({
+      days: range,
+      bots: [...byBot].map(([botId, summary]) => ({
+        botId,
+        ...summary,
+        models: [...byModel]
+          .filter(([key]) => key.startsWith(`${botId}|`))
+          .map(([key, modelSummary]) => ({ model: key.slice(botId.length + 1), ...modelSummary })),
+      })),
+    })
+  }
+
+  /**
+   * 获取所有 bot 配置
+   */
+  listBots(): ApiResult {
+    return ok({ bots: this.botManager.getBotsConfig() })
+  }
+
+  /**
+   * 获取单个 bot 的配置和运行状态
+   */
+  getBot(botId: string): ApiResult {
+    const config = this.botManager.getExplicitBotConfig(botId)
+    if (!config) {
+      return fail(404, `Bot ${botId} 没有配置`)
+    }
+    return ok({ config, status: this.botManager.getBotStatus(botId) ?? null })
+  }
+
+  /**
+   * 校验并保存 bot 配置
+   * @param botId 路径中的 botId，与请求体中的 botId 不一致时拒绝
+   */
+  async updateBot(data: unknown, botId?: string): Promise<ApiResult> {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return fail(400, '请求体必须是 Bot 配置对象')
+    }
+
+    const body = { ...data } as Partial<BotPersonaConfig>
+    if (botId !== undefined) {
+      if (body.botId !== undefined && body.botId !== botId) {
+        return fail(400, `请求体中的 botId (${body.botId}) 与路径中的 ${botId} 不一致`)
+      }
+      body.botId = botId
+    }
+    if (typeof body.botId !== 'string' || !body.botId) {
+      return fail(400, '缺少 botId')
+    }
+
+    let config: BotPersonaConfig
+    try {
+      config = this.botConfigSchema(body as BotPersonaConfig)
+    } catch (error) {
+      return fail(400, `配置格式错误: ${(error as Error).message}`)
+    }
+
+    const errors = validateGenerationParams(config.generation)
+    if (errors.length > 0) {
+      return fail(400, errors.join('；'))
+    }
+
+    if (!this.isKnownBot(config.botId)) {
+      return fail(422, `Bot ${config.botId} 不存在于 multi-bot-controller 中`)
+    }
+
+    const report = await this.botManager.updateBotConfig(config)
+    return ok({ success: true, config, report })
+  }
+
+  /**
+   * 删除 bot 配置
+   */
+  async deleteBot(botId: string): Promise<ApiResult> {
+    const removed = await this.botManager.removeBotConfig(botId)
+    if (!removed) {
+      return fail(404, `Bot ${botId} 没有配置`)
+    }
+    return ok({ success: true })
+  }
+
+  /**
+   * 批量修改多个 bot 的预设、模型等字段
+   * 每个 bot 单独校验和保存，返回失败的 bot 及原因
+   */
+  async bulkUpdate(botIds: unknown, patch: unknown): Promise<ApiResult> {
+    if (!isStringArray(botIds) || botIds.length === 0) {
+      return fail(400, 'botIds 必须是非空的字符串数组')
+    }
+    if (!patch || typeof patch !== 'object' || Array.isArray(patch)) {
+      return fail(400, '缺少要修改的字段')
+    }
+
+    const fields: BulkPatch = {}
+    for (const key of BULK_FIELDS) {
+      if (key in patch) {
+        fields[key] = (patch as BulkPatch)[key] as never
+      }
+    }
+    if (Object.keys(fields).length === 0) {
+      return fail(400, `只能批量修改以下字段: ${BULK_FIELDS.join(', ')}`)
+    }
+
+    return await this.updateEach(botIds, (current) => current && { ...current, ...fields })
+  }
+
+  /**
+   * 将一个 bot 的人设复制到其他 bot，目标 bot 的启用状态保持不变
+   */
+  async copyPersona(sourceBotId: unknown, targetBotIds: unknown): Promise<ApiResult> {
+    const source = typeof sourceBotId === 'string' ? this.botManager.getExplicitBotConfig(sourceBotId) : undefined
+    if (!source) {
+      return fail(404, `Bot ${sourceBotId} 没有配置`)
+    }
+    if (!isStringArray(targetBotIds) || targetBotIds.length === 0) {
+      return fail(400, 'targetBotIds 必须是非空的字符串数组')
+    }
+
+    return await this.updateEach(
+      targetBotIds.filter(botId => botId !== source.botId),
+      (current, botId) => ({
+        ...structuredClone(source),
+        botId,
+        enabled: current?.enabled ?? source.enabled,
+      })
+    )
+  }
+
+  /**
+   * 依次更新多个 bot 的配置
+   * @param build 根据当前配置生成新配置，返回 undefined 表示该 bot 没有配置
+   */
+  private async updateEach(
+    botIds: string[],
+    build: (current: BotPersonaConfig | undefined, botId: string) => BotPersonaConfig | undefined
+  ): Promise<ApiResult> {
+    const updated: string[] = []
+    const failed: Array<{ botId: string; error: string }> = []
+
+    for (const botId of botIds) {
+      const config = build(this.botManager.getExplicitBotConfig(botId), botId)
+      if (!config) {
+        failed.push({ botId, error: '没有配置' })
+        continue
+      }
+
+      const result = await this.updateBot(config, botId)
+      if (result.status === 200) {
+        updated.push(botId)
+      } else {
+        failed.push({ botId, error: result.body.error })
+      }
+    }
+
+    return ok({ success: failed.length === 0, updated, failed })
+  }
+
+  /**
+   * 列出 bot 的所有 room
+   */
+  async listRooms(botId: string): Promise<ApiResult> {
+    return ok({ rooms: await this.rooms.list(botId) })
+  }
+
+  /**
+   * 重置 room 的对话
+   */
+  async resetRoom(roomId: unknown): Promise<ApiResult> {
+    const id = Number(roomId)
+    if (!Number.isInteger(id)) {
+      return fail(400, `无效的 roomId: ${roomId}`)
+    }
+    if (!await this.rooms.reset(id)) {
+      return fail(404, `room ${id} 不存在或不是 Charon 创建的`)
+    }
+    return ok({ success: true })
+  }
+
+  /**
+   * 为 room 单独指定预设和模型
+   */
+  async updateRoom(roomId: unknown, data: unknown): Promise<ApiResult> {
+    const id = Number(roomId)
+    if (!Number.isInteger(id)) {
+      return fail(400, `无效的 roomId: ${roomId}`)
+    }
+
+    const { preset, model } = (data ?? {}) as RoomUpdate
+    if ((preset !== undefined && typeof preset !== 'string') || (model !== undefined && typeof model !== 'string')) {
+      return fail(400, 'preset 和 model 必须是字符串')
+    }
+
+    const update: RoomUpdate = {}
+    if (preset === '') {
+      update.preset = ''
+    } else if (preset) {
+      const found = this.botManager.findPreset(preset)
+      if (!found) {
+        return fail(400, `预设 ${preset} 不存在`)
+      }
+      const { name, source } = this.botManager.parsePresetName(found.name)
+      if (source === 'character') {
+        return fail(400, 'character 预设不能用于 room，请在 Bot 配置中设置')
+      }
+      update.preset = name
+    }
+    if (model === '') {
+      update.model = ''
+    } else if (model) {
+      if (!this.botManager.findModel(model)) {
+        return fail(400, `模型 ${model} 不存在`)
+      }
+      update.model = model
+    }
+    if (Object.keys(update).length === 0) {
+      return fail(400, '缺少要修改的预设或模型')
+    }
+
+    if (!await this.rooms.update(id, update)) {
+      return fail(404, `room ${id} 不存在或不是 Charon 创建的`)
+    }
+    return ok({ success: true })
+  }
+
+  /**
+   * 删除 room 及其成员、群组记录
+   */
+  async deleteRoom(roomId: unknown): Promise<ApiResult> {
+    const id = Number(roomId)
+    if (!Number.isInteger(id)) {
+      return fail(400, `无效的 roomId: ${roomId}`)
+    }
+    if (!await this.rooms.delete(id)) {
+      return fail(404, `room ${id} 不存在或不是 Charon 创建的`)
+    }
+    return ok({ success: true })
+  }
+
+  /**
+   * 导出所有 bot 人设配置
+   */
+  async exportConfig(format: unknown): Promise<ApiResult> {
+    const type = format || 'yaml'
+    if (type !== 'yaml' && type !== 'json') {
+      return fail(400, `不支持的格式: ${format}，可选 yaml 或 json`)
+    }
+
+    const content = await this.transfer.export(type)
+    return ok({ success: true, format: type, filename: `charon-personas.${type === 'yaml' ? 'yml' : 'json'}`, content })
+  }
+
+  /**
+   * 导入 bot 人设配置，dryRun 时只返回预览
+   */
+  async importConfig(content: unknown, options: ImportOptions = {}): Promise<ApiResult> {
+    if (typeof content !== 'string' || !content.trim()) {
+      return fail(400, '缺少要导入的内容')
+    }
+
+    const mode = options.mode || 'merge'
+    if (mode !== 'merge' && mode !== 'replace') {
+      return fail(400, `不支持的导入模式: ${mode}，可选 merge 或 replace`)
+    }
+
+    let document: CharonExport
+    try {
+      document = this.transfer.parse(content)
+    } catch (error) {
+      return fail(400, (error as Error).message)
+    }
+
+    const plan = this.transfer.plan(document, mode)
+    if (options.dryRun) {
+      return ok({ success: true, applied: false, plan })
+    }
+    if (plan.warnings.length > 0 && !options.force) {
+      return { status: 422, body: { success: false, error: '存在引用错误，确认无误后使用 force 强制导入', plan } }
+    }
+
+    return ok({ success: true, applied: true, plan: await this.transfer.apply(document, mode) })
+  }
+
+  /**
+   * 是否允许为该 botId 保存配置：通配符、已有配置或 multi-bot-controller 中存在的 bot
+   */
+  private isKnownBot(botId: string): boolean {
+    return this.botManager.isBotPattern(botId)
+      || !!this.botManager.getExplicitBotConfig(botId)
+      || this.botManager.getMbcBotIds().includes(botId)
+  }
+}
+
+/**
+ * 注册 HTTP 接口
+ * 所有请求都需要携带 `Authorization: Bearer <apiToken>`，未配置 apiToken 时拒绝所有请求
+ */
+export function registerHttpApi(ctx: Context, api: CharonApi, token: string): void {
+  const route = (
+    method: 'get' | 'post' | 'put' | 'patch' | 'delete',
+    path: string,
+    handler: (koa: any) => ApiResult | Promise<ApiResult>
+  ) => {
+    ctx.server[method](API_PREFIX + path, async (koa: any) => {
+      const denied = authorize(koa.get('Authorization'), token)
+      const { status, body } = denied ?? await handler(koa)
+      koa.status = status
+      koa.body = body
+    })
+  }
+
+  route('get', '/data', () => api.getData())
+  route('get', '/usage', (koa) => api.getUsage(koa.query.days))
+  route('get', '/bots', () => api.listBots())
+  route('get', '/bots/:botId', (koa) => api.getBot(koa.params.botId))
+  route('put', '/bots/:botId', (koa) => api.updateBot(koa.request.body, koa.params.botId))
+  route('delete', '/bots/:botId', (koa) => api.deleteBot(koa.params.botId))
+  route('post', '/bot-update', (koa) => api.updateBot(koa.request.body))
+  route('get', '/bots/:botId/rooms', (koa) => api.listRooms(koa.params.botId))
+  route('post', '/rooms/:roomId/reset', (koa) => api.resetRoom(koa.params.roomId))
+  route('patch', '/rooms/:roomId', (koa) => api.updateRoom(koa.params.roomId, koa.request.body))
+  route('delete', '/rooms/:roomId', (koa) => api.deleteRoom(koa.params.roomId))
+  route('get', '/export', (koa) => api.exportConfig(koa.query.format))
+  route('post', '/import', (koa) => {
+    const { content, ...options } = koa.request.body ?? {}
+    return api.importConfig(content, options)
+  })
+}
+
+/**
+ * 获取控制台页面所需的数据
+ */
+export function getCharonData(botManager: BotManager): CharonData {
+  return {
+    bots: botManager.getBotsConfig(),
+    presets: botManager.getPresets(),
+    models: botManager.getModels(),
+    status: botManager.getAllBotStatus(),
+    mbcBots: botManager.getMbcBotIds(),
+  }
+}
+
+/**
+ * 注册控制台接口，依赖控制台自身的登录和权限校验
+ */
+export function registerConsoleApi(ctx: Context, api: CharonApi): void {
+  const options = { authority: CONSOLE_AUTHORITY }
+  ctx.console.addListener('charon/usage', async (days) => (await api.getUsage(days)).body, options)
+  ctx.console.addListener('charon/bot-update', async (config) => (await api.updateBot(config)).body, options)
+  ctx.console.addListener('charon/bot-delete', async (botId) => (await api.deleteBot(botId)).body, options)
+  ctx.console.addListener('charon/bot-bulk-update', async (botIds, patch) => (await api.bulkUpdate(botIds, patch)).body, options)
+  ctx.console.addListener('charon/bot-copy', async (source, targets) => (await api.copyPersona(source, targets)).body, options)
+  ctx.console.addListener('charon/rooms', async (botId) => (await api.listRooms(botId)).body, options)
+  ctx.console.addListener('charon/room-reset', async (roomId) => (await api.resetRoom(roomId)).body, options)
+  ctx.console.addListener('charon/room-update', async (roomId, update) => (await api.updateRoom(roomId, update)).body, options)
+  ctx.console.addListener('charon/room-delete', async (roomId) => (await api.deleteRoom(roomId)).body, options)
+  ctx.console.addListener('charon/export', async (format) => (await api.exportConfig(format)).body, options)
+  ctx.console.addListener('charon/import', async (content, importOptions) => (await api.importConfig(content, importOptions)).body, options)
+}
+
+/**
+ * 校验 HTTP 请求的访问令牌
+ * @returns 拒绝时的响应，通过时返回 undefined
+ */
+function authorize(header: string | undefined, token: string): ApiResult | undefined {
+  if (!token) {
+    return fail(403, 'HTTP 接口未启用，请先在插件配置中设置 apiToken')
+  }
+
+  const expected = Buffer.from(`Bearer ${token}`)
+  const actual = Buffer.from(header || '')
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return fail(401, '访问令牌无效')
+  }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
+
+function ok(body: any): ApiResult {
+  return { status: 200, body }
+}
+
+function fail(status: number, error: string): ApiResult {
+  return { status, body: { success: false, error } }
+}
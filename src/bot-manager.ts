@@ -1,8 +1,57 @@
 // src/bot-manager.ts
-import { Context } from 'koishi'
+import { Context, Tables } from 'koishi'
 import { randomUUID } from 'crypto'
-import { BotPersonaConfig, BotStatus, PresetWithSource, PresetSource } from './types'
+import {
+  BotPersonaConfig,
+  BotStatus,
+  ModelInfo,
+  ModelPrice,
+  PersonaOverride,
+  PersonaSchedule,
+  PresetWithSource,
+  PresetSource,
+  ReconcileReport,
+  ResolvedPersona,
+  UserPersonaChoice,
+} from './types'
 import { updatePresetOptions } from './config'
+import { PersonaStore } from './persona-store'
+import { RoomBindingStore } from './room-binding'
+import { ModelHealthTracker } from './model-health'
+import { findActiveSchedule } from './schedule'
+import { UserPersonaStore } from './user-persona'
+import { UsageStore } from './usage-store'
+
+/** 未匹配任何作用域覆盖时使用的作用域键 */
+export const DEFAULT_PERSONA_SCOPE = 'default'
+
+/** 模板房间的作用域键 */
+export const TEMPLATE_ROOM_SCOPE = 'template'
+
+/** ChatLuna 的 ModelType.llm */
+const MODEL_TYPE_LLM = 1
+
+/** roomId 冲突时的最大重试次数 */
+const ROOM_ALLOCATION_RETRIES = 5
+
+/** conversationId 中 uuid 的格式 */
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/** 私聊人设和私聊作用域覆盖的作用域键 */
+const PRIVATE_PERSONA_SCOPE = 'private'
+
+/** 用户通过 charon.persona 选择预设后使用的作用域前缀，格式: user:{userId}:{preset} */
+export const USER_CHOICE_SCOPE_PREFIX = 'user:'
+
+/** botId 中的通配符，单独使用时作为默认人设匹配所有 bot */
+export const BOT_ID_WILDCARD = '*'
+
+/** 作用域覆盖的匹配优先级（数值越大越具体） */
+const OVERRIDE_PRIORITY: Record<PersonaOverride['scope'], number> = {
+  channel: 3,
+  guild: 2,
+  private: 1,
+}
 
 /**
  * Bot 管理器
@@ -12,6 +61,16 @@ export class BotManager {
   private readonly logger: ReturnType<Context['logger']>
   private readonly botStatusMap: Map<string, BotStatus> = new Map()
   private readonly presetCache: Map<string, PresetWithSource[]> = new Map()
+  /** room 与 bot 的绑定关系 */
+  readonly roomBindings: RoomBindingStore
+  /** 模型健康状态，用于模型回退 */
+  readonly modelHealth: ModelHealthTracker
+  /** 用户通过 charon.persona 选择的人设 */
+  readonly userChoices: UserPersonaStore
+  /** 用量统计，用于预算判断 */
+  readonly usage: UsageStore
+  /** room 创建队列，串行化本进程内的 roomId 分配 */
+  private roomCreationQueue: Promise<unknown> = Promise.resolve()
 
   constructor(
     private ctx: Context,
@@ -19,9 +78,33 @@ export class BotManager {
     private options: {
       debug: boolean
       verboseLogging: boolean
+      /** 连续失败多少次后切换到回退模型 */
+      fallbackThreshold: number
+      /** 失败模型的冷却时间（秒） */
+      fallbackCooldown: number
+      /** 模型价格（每百万 token），用于计算花费 */
+      modelPrices?: ModelPrice[]
+      /** 配置持久化存储 */
+      store?: PersonaStore
+      /** 配置变更后同步到 Koishi 插件配置 */
+      syncConfig?: (bots: BotPersonaConfig[]) => void
+      /** 配置变更后同步已有的 room 和 character 插件 */
+      reconcile?: (
+        previous: BotPersonaConfig | undefined,
+        current: BotPersonaConfig | undefined
+      ) => Promise<ReconcileReport>
     }
   ) {
     this.logger = ctx.logger('chatluna-charon')
+    this.roomBindings = new RoomBindingStore(ctx)
+    this.userChoices = new UserPersonaStore(ctx)
+    this.usage = new UsageStore(ctx, {
+      prices: options.modelPrices || [],
+    })
+    this.modelHealth = new ModelHealthTracker(ctx, {
+      threshold: options.fallbackThreshold,
+      cooldown: options.fallbackCooldown,
+    })
   }
 
   /**
@@ -40,6 +123,20 @@ export class BotManager {
     return `bot_${botId}_${randomUUID()}`
   }
 
+  /**
+   * 从 conversationId 中解析 botId
+   * @returns botId，不是 Charon 生成的 conversationId 时返回 null
+   */
+  parseConversationId(conversationId: string | undefined): string | null {
+    if (!conversationId?.startsWith('bot_')) return null
+    const uuid = conversationId.slice(-36)
+    if (!UUID_PATTERN.test(uuid) || conversationId[conversationId.length - 37] !== '_') {
+      return null
+    }
+    const botId = conversationId.slice(4, -37)
+    return botId || null
+  }
+
   /**
    * 生成 bot 的唯一标识符
    */
@@ -56,11 +153,87 @@ export class BotManager {
 
   /**
    * 获取 bot 的人设配置
+   * 没有精确配置时按具体程度匹配通配符配置（如 "onebot:*"、"*"），
+   * 返回的配置中 botId 为实际的 botId
    */
   getBotConfig(botId: string): BotPersonaConfig | undefined {
+    const explicit = this.getExplicitBotConfig(botId)
+    if (explicit || this.isBotPattern(botId)) {
+      return explicit
+    }
+
+    const pattern = this.getMatchedPattern(botId)
+    return pattern ? { ...pattern, botId } : undefined
+  }
+
+  /**
+   * 获取精确匹配 botId 的人设配置（不匹配通配符）
+   */
+  getExplicitBotConfig(botId: string): BotPersonaConfig | undefined {
     return this.config.find(bot => bot.botId === botId)
   }
 
+  /**
+   * 判断 botId 是否为通配符配置
+   */
+  isBotPattern(botId: string): boolean {
+    return botId.includes(BOT_ID_WILDCARD)
+  }
+
+  /**
+   * 判断 botId 是否匹配通配符
+   */
+  matchBotPattern(pattern: string, botId: string): boolean {
+    if (pattern === BOT_ID_WILDCARD) return true
+    const source = pattern
+      .split(BOT_ID_WILDCARD)
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')
+    return new RegExp(`^${source}$`).test(botId)
+  }
+
+  /**
+   * 获取匹配 botId 的最具体的通配符配置
+   * 具体程度按通配符以外的字符数计算，相同时按配置顺序取第一个
+   */
+  getMatchedPattern(botId: string): BotPersonaConfig | undefined {
+    let matched: BotPersonaConfig | undefined
+    let matchedSpecificity = -1
+
+    for (const bot of this.config) {
+      if (!this.isBotPattern(bot.botId) || !this.matchBotPattern(bot.botId, botId)) continue
+      const specificity = bot.botId.replaceAll(BOT_ID_WILDCARD, '').length
+      if (specificity > matchedSpecificity) {
+        matched = bot
+        matchedSpecificity = specificity
+      }
+    }
+
+    return matched
+  }
+
+  /**
+   * 获取已知的 bot ID（当前在线的 bot 和 multi-bot-controller 中的 bot）
+   */
+  getKnownBotIds(): string[] {
+    const online = this.ctx.bots.map(bot => this.getBotId(bot.platform, bot.selfId))
+    return [...new Set([...online, ...this.getMbcBotIds()])]
+  }
+
+  /**
+   * 获取所有具体 bot 的人设配置
+   * 通配符配置会展开为匹配到的已知 bot，已有精确配置的 bot 不会被通配符覆盖
+   */
+  getResolvedConfigs(): BotPersonaConfig[] {
+    const explicit = this.config.filter(bot => !this.isBotPattern(bot.botId))
+    const explicitIds = new Set(explicit.map(bot => bot.botId))
+    const derived = this.getKnownBotIds()
+      .filter(botId => !explicitIds.has(botId))
+      .map(botId => this.getBotConfig(botId))
+      .filter((bot): bot is BotPersonaConfig => !!bot)
+    return [...explicit, ...derived]
+  }
+
   /**
    * 通过 platform 和 selfId 获取 bot 配置
    */
@@ -69,6 +242,257 @@ export class BotManager {
     return this.getBotConfig(botId)
   }
 
+  /**
+   * 解析当前会话适用的人设
+   * 按 频道 > 群组 > 私聊 的优先级匹配作用域覆盖，未匹配时使用 Bot 的默认配置（私聊时使用私聊人设）
+   */
+  resolvePersona(
+    botConfig: BotPersonaConfig,
+    session: { guildId?: string; channelId?: string }
+  ): ResolvedPersona {
+    let matched: PersonaOverride | undefined
+
+    for (const override of botConfig.overrides || []) {
+      if (!this.matchOverride(override, session)) continue
+      if (!matched || OVERRIDE_PRIORITY[override.scope] > OVERRIDE_PRIORITY[matched.scope]) {
+        matched = override
+      }
+    }
+
+    return this.mergePersona(botConfig, matched, !session.guildId)
+  }
+
+  /**
+   * 获取指定作用域的人设
+   * 作用域对应的覆盖已被删除时，返回 Bot 的默认配置
+   * @param userPreset room 绑定中记录的用户选择的预设（仅 user: 作用域）
+   * @param userChoice 该用户当前的选择，用于保留用户选择的模型（仅 user: 作用域）
+   */
+  getPersonaForScope(
+    botConfig: BotPersonaConfig,
+    scope: string,
+    userPreset?: string,
+    userChoice?: UserPersonaChoice
+  ): ResolvedPersona {
+    if (scope.startsWith(USER_CHOICE_SCOPE_PREFIX)) {
+      const persona = this.mergePersona(botConfig)
+      persona.model = this.resolveUserModel(botConfig, userChoice?.model) || persona.model
+      // 旧版本创建的绑定没有记录预设，保留 room 当前的预设
+      if (!userPreset) {
+        return { ...persona, scope, preset: '' }
+      }
+      // 已不在可选列表中时使用 Bot 的默认配置
+      return botConfig.userPresets?.includes(userPreset)
+        ? { ...persona, scope, preset: userPreset }
+        : persona
+    }
+
+    const override = scope === DEFAULT_PERSONA_SCOPE
+      ? undefined
+      : botConfig.overrides?.find(o => this.getOverrideScope(o) === scope)
+    return this.mergePersona(botConfig, override, scope === PRIVATE_PERSONA_SCOPE)
+  }
+
+  /**
+   * 将作用域覆盖合并到 Bot 的默认配置上
+   * 私聊时以私聊人设为基础，私聊人设未填写的字段继承 Bot 的默认配置；
+   * 模型在冷却中时使用回退链中的下一个可用模型
+   */
+  private mergePersona(
+    botConfig: BotPersonaConfig,
+    matched?: PersonaOverride,
+    isPrivate = false
+  ): ResolvedPersona {
+    const usePrivate = isPrivate && this.hasPrivatePersona(botConfig)
+    const base = {
+      preset: (usePrivate && botConfig.privatePreset) || botConfig.preset,
+      model: (usePrivate && botConfig.privateModel) || botConfig.model,
+      chatMode: (usePrivate && botConfig.privateChatMode) || botConfig.chatMode,
+    }
+
+    const schedule = this.getActiveSchedule(botConfig)
+    const model = this.applyBudget(botConfig, schedule?.model || matched?.model || base.model)
+    let scope = DEFAULT_PERSONA_SCOPE
+    if (matched) {
+      scope = this.getOverrideScope(matched)
+    } else if (usePrivate) {
+      // 私聊人设的 room 与群聊分开，修改私聊人设时只同步私聊的 room
+      scope = PRIVATE_PERSONA_SCOPE
+    }
+
+    return {
+      botId: botConfig.botId,
+      scope,
+      preset: schedule?.preset || matched?.preset || base.preset,
+      model: this.modelHealth.getEffectiveModel(botConfig.botId, model, botConfig.fallbackModels),
+      chatMode: schedule?.chatMode || matched?.chatMode || base.chatMode || 'chat',
+      schedule: schedule?.name,
+    }
+  }
+
+  /**
+   * 超出每月预算时使用预算配置的降级模型
+   */
+  applyBudget(botConfig: BotPersonaConfig, model: string): string {
+    const downgrade = botConfig.budget?.downgradeModel
+    return downgrade && this.isOverBudget(botConfig) ? downgrade : model
+  }
+
+  /**
+   * 判断 bot 当月的用量是否超出预算
+   */
+  isOverBudget(botConfig: BotPersonaConfig): boolean {
+    const budget = botConfig.budget
+    if (!budget) return false
+
+    const usage = this.usage.getMonthlyUsage(botConfig.botId)
+    const tokens = usage.inputTokens + usage.outputTokens
+    return (budget.monthlyTokens > 0 && tokens >= budget.monthlyTokens) ||
+      (budget.monthlyCost > 0 && usage.cost >= budget.monthlyCost)
+  }
+
+  /**
+   * 判断 bot 是否配置了私聊人设
+   */
+  hasPrivatePersona(botConfig: BotPersonaConfig): boolean {
+    return !!(botConfig.privatePreset || botConfig.privateModel || botConfig.privateChatMode)
+  }
+
+  /**
+   * 获取 bot 当前生效的时间段
+   * 时间段优先于作用域覆盖，切换不会更换 room，由 charon_fix_room_auto_update 在下一条消息时应用到 room
+   */
+  getActiveSchedule(botConfig: BotPersonaConfig): PersonaSchedule | undefined {
+    return findActiveSchedule(botConfig.schedules, (schedule, error) => {
+      this.logger.warn(`Bot ${botConfig.botId} 的时间段 ${schedule.name} 配置无效:`, error)
+    })
+  }
+
+  /**
+   * 判断作用域覆盖是否匹配当前会话
+   */
+  private matchOverride(
+    override: PersonaOverride,
+    session: { guildId?: string; channelId?: string }
+  ): boolean {
+    switch (override.scope) {
+      case 'channel':
+        return !!override.channelId &&
+          override.channelId === session.channelId &&
+          (!override.guildId || override.guildId === session.guildId)
+      case 'guild':
+        return !!override.guildId && override.guildId === session.guildId
+      case 'private':
+        return !session.guildId
+      default:
+        return false
+    }
+  }
+
+  /**
+   * 将用户选择的预设和模型应用到解析后的人设
+   * 选择了预设时使用该用户独立的作用域（独立的 room），仅选择模型时沿用原作用域；
+   * 已不在可选列表中的选择会被忽略
+   */
+  applyUserChoice(
+    botConfig: BotPersonaConfig,
+    persona: ResolvedPersona,
+    choice: UserPersonaChoice | undefined
+  ): ResolvedPersona {
+    if (!choice) return persona
+
+    const result = { ...persona }
+    if (choice.preset && botConfig.userPresets?.includes(choice.preset)) {
+      result.preset = choice.preset
+      result.scope = `${USER_CHOICE_SCOPE_PREFIX}${choice.userId}:${choice.preset}`
+    }
+    result.model = this.resolveUserModel(botConfig, choice.model) || result.model
+    return result
+  }
+
+  /**
+   * 解析用户选择的模型，应用预算降级和模型回退
+   * @returns 未选择或已不在可选列表中时返回 undefined
+   */
+  private resolveUserModel(botConfig: BotPersonaConfig, model: string | undefined): string | undefined {
+    if (!model || !botConfig.userModels?.includes(model)) return undefined
+    return this.modelHealth.getEffectiveModel(
+      botConfig.botId,
+      this.applyBudget(botConfig, model),
+      botConfig.fallbackModels
+    )
+  }
+
+  /**
+   * 从 user: 作用域中解析用户 ID
+   * @returns 不是 user: 作用域时返回 undefined
+   */
+  parseUserScope(scope: string): string | undefined {
+    if (!scope.startsWith(USER_CHOICE_SCOPE_PREFIX)) return undefined
+    const rest = scope.slice(USER_CHOICE_SCOPE_PREFIX.length)
+    const index = rest.indexOf(':')
+    return index > 0 ? rest.slice(0, index) : undefined
+  }
+
+  /**
+   * 在 bot 的可选列表中查找用户输入的预设或模型
+   * 预设可以省略来源前缀，模型可以省略平台前缀
+   */
+  findUserOption(
+    botConfig: BotPersonaConfig,
+    name: string
+  ): { field: 'preset' | 'model'; value: string } | undefined {
+    const presets = botConfig.userPresets || []
+    const preset = presets.find(p => p === name) ||
+      presets.find(p => this.parsePresetName(p).name === name)
+    if (preset) return { field: 'preset', value: preset }
+
+    const models = botConfig.userModels || []
+    const model = models.find(m => m === name) ||
+      models.find(m => m.split('/').slice(1).join('/') === name)
+    if (model) return { field: 'model', value: model }
+
+    return undefined
+  }
+
+  /**
+   * 获取作用域覆盖对应的作用域键
+   */
+  getOverrideScope(override: PersonaOverride): string {
+    switch (override.scope) {
+      case 'channel':
+        return `channel:${override.channelId}`
+      case 'guild':
+        return `guild:${override.guildId}`
+      default:
+        return override.scope
+    }
+  }
+
+  /**
+   * 生成 room 名称中标识 bot 和作用域的标签（仅用于显示）
+   * 默认作用域为 "(botId)"，其他作用域为 "(botId|scope)"
+   */
+  getRoomTag(botId: string, scope = DEFAULT_PERSONA_SCOPE): string {
+    return scope === DEFAULT_PERSONA_SCOPE ? `(${botId})` : `(${botId}|${scope})`
+  }
+
+  /**
+   * 从 room 名称中解析所属的作用域（用于迁移没有绑定记录的旧 room）
+   * @returns 作用域键，room 名称中不包含该 bot 的标签时返回 null
+   */
+  parseRoomScope(roomName: string | undefined, botId: string): string | null {
+    if (!roomName) return null
+    if (roomName.includes(`(${botId})`)) return DEFAULT_PERSONA_SCOPE
+
+    const prefix = `(${botId}|`
+    const start = roomName.lastIndexOf(prefix)
+    if (start < 0) return null
+
+    const end = roomName.indexOf(')', start + prefix.length)
+    return end < 0 ? null : roomName.slice(start + prefix.length, end)
+  }
+
   /**
    * 获取所有 bot 配置
    */
@@ -101,20 +525,39 @@ export class BotManager {
     }
     this.botStatusMap.set(botId, Object.assign({}, current, status))
     this.debug(`Bot ${botId} 状态已更新:`, status)
+    this.notifyUpdated()
   }
 
   /**
    * 获取所有已启用的 bot 配置
    */
   getEnabledBots(): BotPersonaConfig[] {
-    return this.config.filter(bot => bot.enabled)
+    return this.getResolvedConfigs().filter(bot => bot.enabled)
   }
 
   /**
    * 获取所有 bot 的运行时状态
    */
   getAllBotStatus(): BotStatus[] {
-    return Array.from(this.botStatusMap.values())
+    return Array.from(this.botStatusMap.values(), status => {
+      const botConfig = this.getBotConfig(status.botId)
+      if (!botConfig) return status
+      // 默认作用域的人设，时间段生效时使用时间段的预设和模型
+      const schedule = this.getActiveSchedule(botConfig)
+      const model = schedule?.model || botConfig.model
+      return {
+        ...status,
+        currentPreset: schedule?.preset || botConfig.preset,
+        currentModel: model,
+        activeSchedule: schedule?.name,
+        overBudget: this.isOverBudget(botConfig),
+        effectiveModel: this.modelHealth.getEffectiveModel(
+          status.botId,
+          this.applyBudget(botConfig, model),
+          botConfig.fallbackModels
+        ),
+      }
+    })
   }
 
   /**
@@ -149,6 +592,7 @@ export class BotManager {
 
     // 更新配置界面的预设选项
     updatePresetOptions(this.ctx, presets)
+    this.notifyUpdated()
 
     if (!silent) {
       const chatlunaCount = presets.filter(p => p.source === PresetSource.ChatLuna).length
@@ -303,6 +747,70 @@ export class BotManager {
     return this.presetCache.get('all') || []
   }
 
+  /**
+   * 获取 ChatLuna 中可用的模型列表
+   */
+  getModels(): ModelInfo[] {
+    try {
+      const platformService = this.ctx.chatluna?.platform
+      if (!platformService) {
+        this.debug('ChatLuna 模型平台服务不可用')
+        return []
+      }
+
+      const models = platformService.listAllModels(MODEL_TYPE_LLM).value || []
+      return models.map(model => {
+        const name = model.toModelName()
+        return { name, label: name, platform: model.platform }
+      })
+    } catch (error) {
+      this.logger.warn('获取 ChatLuna 模型列表失败:', error)
+      return []
+    }
+  }
+
+  /**
+   * 按名称查找预设
+   * 支持完整名称（如 "chatluna:sydney"）和不带来源前缀的名称（仅在唯一匹配时）
+   */
+  findPreset(name: string): PresetWithSource | undefined {
+    const presets = this.getPresets()
+    const exact = presets.find(p => p.name === name)
+    if (exact) return exact
+
+    const matches = presets.filter(p => this.parsePresetName(p.name).name === name)
+    return matches.length === 1 ? matches[0] : undefined
+  }
+
+  /**
+   * 按名称查找模型（格式: platform/model）
+   */
+  findModel(name: string): ModelInfo | undefined {
+    return this.getModels().find(m => m.name === name)
+  }
+
+  /**
+   * 获取 multi-bot-controller 中的所有 bot ID
+   */
+  getMbcBotIds(): string[] {
+    try {
+      const bots = this.ctx['multi-bot-controller']?.getBots() || []
+      return bots.map((b: any) => this.getBotId(b.platform, b.selfId))
+    } catch (error) {
+      this.debug('获取 multi-bot-controller bot 列表失败:', error)
+      return []
+    }
+  }
+
+  /**
+   * 获取使用了指定预设或模型的 bot（包括作用域覆盖）
+   */
+  getBotsUsing(field: 'preset' | 'model', value: string): string[] {
+    return this.config
+      .filter(bot => bot[field] === value || bot.overrides?.some(o => o[field] === value))
+      .map(bot => bot.botId)
+  }
+
   /**
    * 获取所有 Bot 配置（供控制台使用）
    */
@@ -311,16 +819,181 @@ export class BotManager {
   }
 
   /**
-   * 更新 Bot 配置（供控制台使用）
+   * 更新 Bot 配置（供控制台和指令使用）
+   * 修改会写入数据库，并同步到 Koishi 插件配置
    */
-  updateBotConfig(config: BotPersonaConfig): void {
+  async updateBotConfig(config: BotPersonaConfig): Promise<ReconcileReport | undefined> {
     const index = this.config.findIndex(b => b.botId === config.botId)
+    const previous = index >= 0 ? this.config[index] : undefined
     if (index >= 0) {
       this.config[index] = config
     } else {
       this.config.push(config)
     }
+
+    await this.options.store?.save(config)
+    this.syncConfig()
+    this.notifyUpdated()
     this.debug(`已更新 Bot 配置: ${config.botId}`)
+
+    return await this.reconcile(previous, config)
+  }
+
+  /**
+   * 删除 Bot 配置（供控制台和 HTTP 接口使用）
+   * @returns 是否存在该配置
+   */
+  async removeBotConfig(botId: string): Promise<boolean> {
+    const index = this.config.findIndex(b => b.botId === botId)
+    if (index < 0) return false
+
+    const [previous] = this.config.splice(index, 1)
+    await this.options.store?.remove([botId])
+    this.syncConfig()
+    this.notifyUpdated()
+    this.debug(`已删除 Bot 配置: ${botId}`)
+
+    await this.reconcile(previous, undefined)
+    return true
+  }
+
+  /**
+   * 从数据库加载持久化的配置，并与插件配置中的 bots 合并
+   * 数据库中的配置优先，仅存在于插件配置中的 bot 会被写入数据库
+   */
+  async loadPersistedConfig(): Promise<void> {
+    const store = this.options.store
+    if (!store) return
+
+    const persisted = await store.loadAll()
+    const persistedMap = new Map(persisted.map(bot => [bot.botId, bot]))
+    const staticIds = new Set(this.config.map(bot => bot.botId))
+    const previous = [...this.config]
+
+    // 仅存在于插件配置中的 bot 写入数据库
+    await store.saveAll(this.config.filter(bot => !persistedMap.has(bot.botId)))
+
+    // 保持插件配置中的顺序，数据库独有的 bot 追加在末尾
+    const merged = [
+      ...this.config.map(bot => persistedMap.get(bot.botId) || bot),
+      ...persisted.filter(bot => !staticIds.has(bot.botId)),
+    ]
+
+    const changed = JSON.stringify(merged) !== JSON.stringify(this.config)
+    this.config.splice(0, this.config.length, ...merged)
+
+    if (changed) {
+      this.syncConfig()
+      this.notifyUpdated()
+      // 数据库中的配置与插件配置不一致时，同步已有的 room
+      for (const bot of merged) {
+        const before = previous.find(b => b.botId === bot.botId)
+        if (before && JSON.stringify(before) !== JSON.stringify(bot)) {
+          await this.reconcile(before, bot)
+        }
+      }
+    }
+
+    this.logger.info(`已从数据库加载 ${persisted.length} 个 Bot 配置，合并后共 ${merged.length} 个`)
+  }
+
+  /**
+   * 使用新的 bots 列表整体替换当前配置（在 Koishi 配置页修改或导入配置时调用）
+   * 被移除的 bot 会同时从数据库中删除
+   * @param sync 是否同步回 Koishi 插件配置（在 Koishi 配置页修改时不需要）
+   */
+  async replaceConfig(bots: BotPersonaConfig[], sync = false): Promise<ReconcileReport[]> {
+    const previous = [...this.config]
+    const nextIds = new Set(bots.map(bot => bot.botId))
+    const removed = previous.filter(bot => !nextIds.has(bot.botId))
+
+    this.config.splice(0, this.config.length, ...bots)
+
+    await this.options.store?.saveAll(bots)
+    await this.options.store?.remove(removed.map(bot => bot.botId))
+    if (sync) {
+      this.syncConfig()
+    }
+    this.notifyUpdated()
+    this.debug(`已替换 Bot 配置，共 ${bots.length} 个，移除 ${removed.length} 个`)
+
+    const reports: ReconcileReport[] = []
+    for (const bot of bots) {
+      const before = previous.find(b => b.botId === bot.botId)
+      if (before && JSON.stringify(before) === JSON.stringify(bot)) continue
+      const report = await this.reconcile(before, bot)
+      if (report) reports.push(report)
+    }
+    for (const bot of removed) {
+      const report = await this.reconcile(bot, undefined)
+      if (report) reports.push(report)
+    }
+    return reports
+  }
+
+  /**
+   * 同步配置变更到已有的 room 和 character 插件
+   */
+  private async reconcile(
+    previous: BotPersonaConfig | undefined,
+    current: BotPersonaConfig | undefined
+  ): Promise<ReconcileReport | undefined> {
+    if (!this.options.reconcile) return
+    try {
+      return await this.options.reconcile(previous, current)
+    } catch (error) {
+      this.logger.warn(`同步 Bot ${current?.botId ?? previous?.botId} 的配置变更失败:`, error)
+    }
+  }
+
+  /**
+   * 将 bot 配置注册到 character 插件
+   * 既没有预设也没有模型时清除已注册的配置
+   * @returns 是否已同步（character 插件不可用时返回 false）
+   */
+  registerCharacterConfig(botConfig: BotPersonaConfig): boolean {
+    const botConfigService = this.ctx.chatluna_character?.botConfig
+    if (!botConfigService) {
+      return false
+    }
+
+    const { botId, preset, model } = botConfig
+    if (!preset && !model) {
+      if (botConfigService.hasBotConfig(botId)) {
+        botConfigService.clearBotConfig(botId)
+      }
+      return true
+    }
+
+    // 统一使用 parsePresetName() 解析预设名称
+    const { name: cleanPreset } = this.parsePresetName(preset || '')
+
+    botConfigService.setBotConfig(botId, {
+      preset: cleanPreset || undefined,
+      model
+    })
+    this.logger.info(
+      `[Charon] 注册 Bot ${botId} 配置: preset="${cleanPreset}", model="${model}"`
+    )
+    return true
+  }
+
+  /**
+   * 将当前配置同步到 Koishi 插件配置
+   */
+  private syncConfig(): void {
+    try {
+      this.options.syncConfig?.(this.getBotsConfig())
+    } catch (error) {
+      this.logger.warn('同步 Koishi 插件配置失败:', error)
+    }
+  }
+
+  /**
+   * 通知控制台等监听方配置或状态已变更
+   */
+  private notifyUpdated(): void {
+    this.ctx.emit('charon/updated')
   }
 
   /**
@@ -340,6 +1013,8 @@ export class BotManager {
    */
   async createRoom(options: {
     botId: string
+    /** 作用域键，写入 charon_room_binding 表 */
+    scope?: string
     roomName: string
     roomMasterId: string
     guildId?: string
@@ -348,12 +1023,18 @@ export class BotManager {
     model?: string
     chatMode?: 'chat' | 'plugin'
   }): Promise<any> {
-    const { botId, roomName, roomMasterId, guildId, visibility, preset, model, chatMode } = options
+    // 多个 bot 同时创建 room 时排队执行，避免分配到相同的 roomId
+    const task = this.roomCreationQueue.then(() => this.insertRoom(options))
+    this.roomCreationQueue = task.catch(() => {})
+    return await task
+  }
 
-    // 获取当前最大的 roomId（优化：只查询一条记录，按 roomId 降序）
-    const result = await this.ctx.database.get('chathub_room', {}, { limit: 1, sort: { roomId: 'desc' } })
-    const maxRoomId = result[0]?.roomId ?? 0
-    const newRoomId = maxRoomId + 1
+  /**
+   * 分配 roomId 并写入 room 及其关联记录
+   */
+  private async insertRoom(options: Parameters<BotManager['createRoom']>[0]): Promise<any> {
+    const { botId, roomName, roomMasterId, guildId, visibility, preset, model, chatMode } = options
+    const scope = options.scope || DEFAULT_PERSONA_SCOPE
 
     // 生成 conversationId
     const conversationId = this.generateConversationId(botId)
@@ -363,7 +1044,6 @@ export class BotManager {
 
     // 创建 room
     const newRoom: any = {
-      roomId: newRoomId,
       roomName,
       roomMasterId,
       conversationId,
@@ -376,13 +1056,28 @@ export class BotManager {
       updatedTime: new Date(),
     }
 
-    try {
-      await this.ctx.database.create('chathub_room', newRoom)
-    } catch (error) {
-      this.logger.error(`[Charon] 创建 chathub_room 失败:`, error)
-      throw error
+    // ChatLuna 自身也会按 max(roomId) + 1 创建 room，冲突时重新分配并重试
+    for (let attempt = 1; ; attempt++) {
+      // 获取当前最大的 roomId（优化：只查询一条记录，按 roomId 降序）
+      const result = await this.ctx.database.get('chathub_room', {}, { limit: 1, sort: { roomId: 'desc' } })
+      newRoom.roomId = (result[0]?.roomId ?? 0) + 1
+
+      try {
+        await this.ctx.database.create('chathub_room', newRoom)
+        break
+      } catch (error) {
+        const conflict = await this.ctx.database.get('chathub_room', { roomId: newRoom.roomId }, ['roomId'])
+        if (conflict.length > 0 && attempt < ROOM_ALLOCATION_RETRIES) {
+          this.debug(`roomId ${newRoom.roomId} 已被占用，重新分配（第 ${attempt} 次重试）`)
+          continue
+        }
+        this.logger.error(`[Charon] 创建 chathub_room 失败:`, error)
+        throw error
+      }
     }
 
+    const newRoomId: number = newRoom.roomId
+
     // 创建 room 成员记录
     try {
       await this.ctx.database.create('chathub_room_member', {
@@ -409,9 +1104,80 @@ export class BotManager {
       }
     }
 
+    // 记录 room 所属的 bot 和作用域
+    try {
+      await this.roomBindings.bind(
+        newRoomId,
+        botId,
+        scope,
+        scope.startsWith(USER_CHOICE_SCOPE_PREFIX) ? preset : undefined
+      )
+    } catch (error) {
+      this.logger.error(`[Charon] 创建 charon_room_binding 失败:`, error)
+      throw error
+    }
+
     return newRoom
   }
 
+  /**
+   * 删除 room 及其成员、群组、用户默认 room 和绑定记录
+   */
+  async deleteRoom(room: Tables['chathub_room']): Promise<void> {
+    const { roomId } = room
+
+    try {
+      await this.ctx.chatluna?.clearChatHistory?.(room)
+    } catch (error) {
+      this.logger.warn(`[Charon] 清除 room ${roomId} 的聊天记录失败:`, error)
+    }
+
+    await this.ctx.database.remove('chathub_room_member', { roomId })
+    await this.ctx.database.remove('chathub_room_group_member', { roomId })
+    // 以该 room 作为默认 room 的用户下次发消息时会重新分配
+    await this.ctx.database.remove('chathub_user', { defaultRoomId: roomId })
+    await this.ctx.database.remove('chathub_room', { roomId })
+    await this.roomBindings.unbind([roomId])
+  }
+
+  /**
+   * 为已有的 Charon room 补全绑定记录
+   * 通过 conversationId 前缀 bot_{botId}_ 识别所属 bot，已有绑定的 room 会被跳过
+   * @returns 新增的绑定数量
+   */
+  async migrateRoomBindings(): Promise<number> {
+    const rooms = await this.ctx.database.get('chathub_room', {
+      conversationId: { $regex: /^bot_/ },
+    }, ['roomId', 'roomName', 'conversationId', 'updatedTime'])
+
+    const bound = await this.roomBindings.getBoundRoomIds(rooms.map(room => room.roomId))
+    const bindings = []
+
+    for (const room of rooms) {
+      if (bound.has(room.roomId)) continue
+
+      const botId = this.parseConversationId(room.conversationId)
+      if (!botId) continue
+
+      const scope = room.roomName === `模板房间_${botId}`
+        ? TEMPLATE_ROOM_SCOPE
+        : this.parseRoomScope(room.roomName, botId) ?? DEFAULT_PERSONA_SCOPE
+
+      bindings.push({
+        roomId: room.roomId,
+        botId,
+        scope,
+        createdAt: room.updatedTime || new Date(),
+      })
+    }
+
+    await this.roomBindings.bindAll(bindings)
+    if (bindings.length > 0) {
+      this.logger.info(`[Charon] 已为 ${bindings.length} 个已有 room 补全绑定记录`)
+    }
+    return bindings.length
+  }
+
   /**
    * 验证预设是否存在
    * @deprecated 未使用，保留供未来扩展
@@ -7,15 +7,5 @@ export default {
   component: () => import('./config.vue'),
 }
 
-// 类型声明
-declare module '@koishijs/console' {
-  interface Interfaces {
-    'multi-bot-controller-chatluna-charon': {
-      bots: BotPersonaConfig[]
-      presets: PresetInfo[]
-      models: ModelInfo[]
-    }
-  }
-}
-
-import type { BotPersonaConfig, PresetInfo, ModelInfo } from '../types'
+// 类型声明：store.charon 由服务端的 CharonProvider 推送
+import type {} from '../data-service'
@@ -0,0 +1,377 @@
+// src/commands.ts
+import { Context } from 'koishi'
+import { BotManager } from './bot-manager'
+import { RateLimitGuard } from './guards/rate-limit'
+import { AccessListType, BotPersonaConfig, ReconcileReport, UsageSummary } from './types'
+import { formatSuggestions, suggest } from './utils'
+
+/** charon.set 支持的配置项 */
+const SETTABLE_FIELDS = ['preset', 'model', 'mode']
+
+/** charon.acl 中的列表名称 */
+const ACCESS_LISTS: Record<string, AccessListType> = {
+  'allow-guild': 'allowGuilds',
+  'deny-guild': 'denyGuilds',
+  'allow-channel': 'allowChannels',
+  'deny-channel': 'denyChannels',
+  'allow-user': 'allowUsers',
+  'deny-user': 'denyUsers',
+}
+
+/**
+ * 注册人设管理指令
+ * 修改会通过 BotManager.updateBotConfig 持久化，并立即同步到已有的 room
+ */
+export function registerManagementCommands(
+  ctx: Context,
+  botManager: BotManager,
+  rateLimitGuard: RateLimitGuard
+): void {
+  // 修改 bot 的预设、模型或聊天模式
+  ctx.command('charon.set <botId:string> <field:string> <value:text>', '修改 bot 的人设配置', { authority: 4 })
+    .usage('field 可选 preset / model / mode，例如：charon.set onebot:123456 preset chatluna:sydney')
+    .action(async (_, botId, field, value) => {
+      if (!botId || !field || !value) {
+        return '用法：charon.set <botId> preset|model|mode <值>'
+      }
+
+      const target = resolveTarget(botManager, botId)
+      if (typeof target === 'string') {
+        return target
+      }
+
+      value = value.trim()
+      const next: BotPersonaConfig = { ...target }
+
+      switch (field) {
+        case 'preset': {
+          const preset = botManager.findPreset(value)
+          if (!preset) {
+            const names = botManager.getPresets().map(p => p.name)
+            return `未找到预设 ${value}` + formatSuggestions(suggest(value, names))
+          }
+          next.preset = preset.name
+          break
+        }
+        case 'model': {
+          const models = botManager.getModels()
+          if (models.length === 0) {
+            return 'ChatLuna 模型列表为空，请确认模型平台已加载后再试'
+          }
+          if (!botManager.findModel(value)) {
+            return `未找到模型 ${value}` + formatSuggestions(suggest(value, models.map(m => m.name)))
+          }
+          next.model = value
+          break
+        }
+        case 'mode': {
+          if (value !== 'chat' && value !== 'plugin') {
+            return '聊天模式只能是 chat（聊天模式）或 plugin（Agent 模式）'
+          }
+          next.chatMode = value
+          break
+        }
+        default:
+          return `未知的配置项 ${field}，可选：${SETTABLE_FIELDS.join('、')}` +
+            formatSuggestions(suggest(field, SETTABLE_FIELDS))
+      }
+
+      const report = await botManager.updateBotConfig(next)
+      const display = field === 'preset' ? next.preset : value
+      return `已将 ${next.botId} 的 ${field} 设置为 ${display}` + formatReport(report)
+    })
+
+  // 启用 bot 的人设
+  ctx.command('charon.enable <botId:string>', '启用 bot 的人设', { authority: 4 })
+    .action(async (_, botId) => {
+      if (!botId) return '用法：charon.enable <botId>'
+      return await setEnabled(botManager, botId, true)
+    })
+
+  // 停用 bot 的人设
+  ctx.command('charon.disable <botId:string>', '停用 bot 的人设', { authority: 4 })
+    .action(async (_, botId) => {
+      if (!botId) return '用法：charon.disable <botId>'
+      return await setEnabled(botManager, botId, false)
+    })
+
+  // 查看频率限制用量
+  ctx.command('charon.quota <botId:string>', '查看 bot 的频率限制用量', { authority: 4 })
+    .action(async (_, botId) => {
+      if (!botId) return '用法：charon.quota <botId>'
+
+      const botConfig = botManager.getBotConfig(botId)
+      if (!botConfig) {
+        return `未找到 bot ${botId}` + formatSuggestions(suggest(botId, botManager.getConfig().map(b => b.botId)))
+      }
+
+      const limits = botConfig.limits
+      if (!limits?.perUserPerMinute && !limits?.perGuildPerHour && !limits?.perDay) {
+        return `${botConfig.botId} 没有配置频率限制`
+      }
+
+      let output = `${botConfig.botId} 的频率限制：\n`
+      output += `- 每个用户每分钟: ${limits.perUserPerMinute || '不限制'}\n`
+      output += `- 每个群组每小时: ${limits.perGuildPerHour || '不限制'}\n`
+      output += `- 每天: ${limits.perDay || '不限制'}\n`
+
+      const usage = await rateLimitGuard.getUsage(botConfig)
+      output += '\n当前用量：\n'
+      output += usage.length > 0
+        ? usage.map(u => `- ${u.label}: ${u.count}/${u.limit}`).join('\n')
+        : '- 当前时间窗口内没有消息'
+      return output.trim()
+    })
+
+  // 查看用量统计
+  ctx.command('charon.usage [botId:string]', '查看 bot 的 token 用量', { authority: 4 })
+    .option('days', '-d <days:posint> 统计最近几天（含今天）', { fallback: 7 })
+    .action(async ({ options }, botId) => {
+      const days = options.days
+      const usage = botManager.usage
+
+      if (!botId) {
+        const byBot = usage.summarize(await usage.query(days), r => r.botId)
+        if (byBot.size === 0) {
+          return `最近 ${days} 天没有用量记录`
+        }
+        const lines = [...byBot]
+          .sort(([, a], [, b]) => totalTokens(b) - totalTokens(a))
+          .map(([id, summary]) => `- ${id}: ${formatUsage(summary)}`)
+        return `最近 ${days} 天的用量：\n${lines.join('\n')}`
+      }
+
+      const botConfig = botManager.getBotConfig(botId)
+      const records = await usage.query(days, botId)
+      if (!botConfig && records.length === 0) {
+        return `未找到 bot ${botId}` + formatSuggestions(suggest(botId, botManager.getConfig().map(b => b.botId)))
+      }
+
+      let output = `${botId} 最近 ${days} 天的用量：\n`
+      const [total] = usage.summarize(records, () => 'total').values()
+      output += `- 合计: ${total ? formatUsage(total) : '无'}\n`
+
+      const sections: Array<[string, Map<string, UsageSummary>]> = [
+        ['按模型', usage.summarize(records, r => r.model || '默认模型')],
+        ['按群组', usage.summarize(records, r => r.guildId || '私聊')],
+        ['按用户', usage.summarize(records, r => r.userId || '未知')],
+      ]
+      for (const [title, summaries] of sections) {
+        if (summaries.size === 0) continue
+        output += `\n${title}：\n`
+        output += [...summaries]
+          .sort(([, a], [, b]) => totalTokens(b) - totalTokens(a))
+          .slice(0, 5)
+          .map(([key, summary]) => `- ${key}: ${formatUsage(summary)}`)
+          .join('\n') + '\n'
+      }
+
+      const budget = botConfig?.budget
+      if (budget && (budget.monthlyTokens || budget.monthlyCost)) {
+        const monthly = usage.getMonthlyUsage(botId)
+        output += `\n本月预算：\n`
+        if (budget.monthlyTokens) {
+          output += `- token: ${totalTokens(monthly)}/${budget.monthlyTokens}\n`
+        }
+        if (budget.monthlyCost) {
+          output += `- 花费: ${monthly.cost.toFixed(4)}/${budget.monthlyCost}\n`
+        }
+        if (botManager.isOverBudget(botConfig)) {
+          output += budget.downgradeModel
+            ? `- 已超出预算，正在使用 ${budget.downgradeModel}\n`
+            : '- 已超出预算（未配置降级模型）\n'
+        }
+      }
+
+      return output.trim()
+    })
+
+  // 访问控制
+  ctx.command('charon.acl', '管理 bot 的访问控制', { authority: 4 })
+
+  ctx.command('charon.acl.add <botId:string> <list:string> <id:string>', '添加访问控制规则', { authority: 4 })
+    .usage(`list 可选 ${Object.keys(ACCESS_LISTS).join(' / ')}，例如：charon.acl add onebot:123456 allow-guild 10001`)
+    .action(async (_, botId, list, id) => {
+      if (!botId || !list || !id) {
+        return '用法：charon.acl add <botId> <list> <id>'
+      }
+      return await updateAccessList(botManager, botId, list, id, true)
+    })
+
+  ctx.command('charon.acl.remove <botId:string> <list:string> <id:string>', '移除访问控制规则', { authority: 4 })
+    .action(async (_, botId, list, id) => {
+      if (!botId || !list || !id) {
+        return '用法：charon.acl remove <botId> <list> <id>'
+      }
+      return await updateAccessList(botManager, botId, list, id, false)
+    })
+
+  ctx.command('charon.acl.list <botId:string>', '查看访问控制规则', { authority: 4 })
+    .action((_, botId) => {
+      if (!botId) return '用法：charon.acl list <botId>'
+
+      const botConfig = botManager.getBotConfig(botId)
+      if (!botConfig) {
+        return `未找到 bot ${botId}` + formatSuggestions(suggest(botId, botManager.getConfig().map(b => b.botId)))
+      }
+
+      const acl = botConfig.acl || {}
+      const lines = Object.entries(ACCESS_LISTS)
+        .filter(([, key]) => acl[key]?.length)
+        .map(([name, key]) => `- ${name}: ${acl[key].join(', ')}`)
+
+      if (lines.length === 0) {
+        return `${botConfig.botId} 没有配置访问控制规则`
+      }
+      if (acl.refusal) {
+        lines.push(`- 拒绝回复: ${acl.refusal}`)
+      }
+      return `${botConfig.botId} 的访问控制规则：\n${lines.join('\n')}`
+    })
+}
+
+/**
+ * 注册用户指令
+ * 用户可以在 bot 配置的可选列表中选择自己使用的预设和模型
+ */
+export function registerUserCommands(ctx: Context, botManager: BotManager): void {
+  ctx.command('charon.persona [name:text]', '选择当前 bot 的人设')
+    .usage('不带参数时查看可选的预设和模型，使用 charon.persona default 恢复默认人设')
+    .action(async ({ session }, name) => {
+      const botId = botManager.getBotId(session.platform, session.selfId)
+      const botConfig = botManager.getBotConfig(botId)
+      const presets = botConfig?.userPresets || []
+      const models = botConfig?.userModels || []
+      if (!botConfig?.enabled || (presets.length === 0 && models.length === 0)) {
+        return '当前 bot 没有可供选择的人设'
+      }
+
+      const choice = await botManager.userChoices.get(botId, session.userId)
+      name = name?.trim()
+
+      if (!name) {
+        let output = `当前预设: ${choice?.preset || '默认'}\n当前模型: ${choice?.model || '默认'}\n`
+        if (presets.length > 0) output += `可选预设: ${presets.join('、')}\n`
+        if (models.length > 0) output += `可选模型: ${models.join('、')}\n`
+        return output.trim()
+      }
+
+      if (name === 'default') {
+        await botManager.userChoices.remove(botId, session.userId)
+        return '已恢复默认人设'
+      }
+
+      const option = botManager.findUserOption(botConfig, name)
+      if (!option) {
+        return `${name} 不在可选列表中` + formatSuggestions(suggest(name, [...presets, ...models]))
+      }
+
+      await botManager.userChoices.set(botId, session.userId, {
+        preset: choice?.preset || '',
+        model: choice?.model || '',
+        [option.field]: option.value,
+      })
+
+      return option.field === 'preset'
+        ? `已切换到预设 ${option.value}，将使用独立的对话`
+        : `已切换到模型 ${option.value}`
+    })
+}
+
+/**
+ * 启用或停用 bot 的人设
+ */
+async function setEnabled(botManager: BotManager, botId: string, enabled: boolean): Promise<string> {
+  const target = resolveTarget(botManager, botId)
+  if (typeof target === 'string') {
+    return target
+  }
+
+  const label = enabled ? '启用' : '停用'
+  if (target.enabled === enabled && botManager.getBotConfig(target.botId)) {
+    return `${target.botId} 的人设已经是${label}状态`
+  }
+
+  const report = await botManager.updateBotConfig({ ...target, enabled })
+  return `已${label} ${target.botId} 的人设` + formatReport(report)
+}
+
+/**
+ * 添加或移除访问控制规则
+ */
+async function updateAccessList(
+  botManager: BotManager,
+  botId: string,
+  list: string,
+  id: string,
+  add: boolean
+): Promise<string> {
+  const key = ACCESS_LISTS[list]
+  if (!key) {
+    return `未知的列表 ${list}，可选：${Object.keys(ACCESS_LISTS).join('、')}` +
+      formatSuggestions(suggest(list, Object.keys(ACCESS_LISTS)))
+  }
+
+  const target = resolveTarget(botManager, botId)
+  if (typeof target === 'string') {
+    return target
+  }
+
+  const ids = target.acl?.[key] || []
+  if (add === ids.includes(id)) {
+    return add ? `${id} 已在 ${list} 中` : `${id} 不在 ${list} 中`
+  }
+
+  const acl = { ...target.acl, [key]: add ? [...ids, id] : ids.filter(i => i !== id) }
+  await botManager.updateBotConfig({ ...target, acl })
+  return add ? `已将 ${id} 添加到 ${target.botId} 的 ${list}` : `已将 ${id} 从 ${target.botId} 的 ${list} 中移除`
+}
+
+/**
+ * 获取要修改的 bot 配置
+ * 尚未配置但存在于 multi-bot-controller 中的 bot 以及新的通配符会使用默认配置，
+ * 匹配通配符的 bot 会以通配符配置为基础创建精确配置
+ * @returns bot 配置，找不到时返回错误提示
+ */
+function resolveTarget(botManager: BotManager, botId: string): BotPersonaConfig | string {
+  const existing = botManager.getBotConfig(botId)
+  if (existing) {
+    return existing
+  }
+
+  const mbcBotIds = botManager.getMbcBotIds()
+  if (mbcBotIds.includes(botId) || botManager.isBotPattern(botId)) {
+    return { botId, enabled: true, preset: '', model: '', chatMode: 'chat' }
+  }
+
+  const candidates = [...new Set([...botManager.getConfig().map(b => b.botId), ...mbcBotIds])]
+  return `未找到 bot ${botId}` + formatSuggestions(suggest(botId, candidates))
+}
+
+/**
+ * 计算输入和输出 token 的合计
+ */
+function totalTokens(summary: UsageSummary): number {
+  return summary.inputTokens + summary.outputTokens
+}
+
+/**
+ * 格式化用量汇总
+ */
+function formatUsage(summary: UsageSummary): string {
+  let text = `${summary.messages} 条消息，输入 ${summary.inputTokens} / 输出 ${summary.outputTokens} token`
+  if (summary.cost > 0) {
+    text += `，花费 ${summary.cost.toFixed(4)}`
+  }
+  return text
+}
+
+/**
+ * 格式化配置同步结果
+ */
+function formatReport(report: ReconcileReport | undefined): string {
+  if (!report || report.updatedRooms.length === 0) {
+    return ''
+  }
+  return `\n已同步 ${report.updatedRooms.length} 个 room`
+}
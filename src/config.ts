@@ -1,17 +1,52 @@
 // src/config.ts
 import { Context, Schema } from 'koishi'
-import { PresetWithSource, BotPersonaConfig } from './types'
+import { GENERATION_PARAM_RANGES } from './utils'
+import {
+  PresetWithSource,
+  BotPersonaConfig,
+  PersonaOverride,
+  PersonaSchedule,
+  ArbitrationRule,
+  BotAccessList,
+  RateLimitConfig,
+  BotBudget,
+  ModelPrice,
+  GenerationParams,
+  LoopGuardConfig,
+  RoundtableConfig,
+} from './types'
 
 /** 插件配置 */
 export interface Config {
   /** Bot 人设配置列表 */
   bots: BotPersonaConfig[]
 
+  /** 多 Bot 回复仲裁规则 */
+  arbitration: ArbitrationRule[]
+
+  /** 防循环配置 */
+  loopGuard: LoopGuardConfig
+
+  /** 圆桌讨论配置 */
+  roundtable: RoundtableConfig
+
   /** 是否输出调试日志 */
   debug: boolean
 
   /** 是否输出详细日志 */
   verboseLogging: boolean
+
+  /** 连续失败多少次后切换到回退模型 */
+  fallbackThreshold: number
+
+  /** 失败模型的冷却时间（秒） */
+  fallbackCooldown: number
+
+  /** 模型价格（每百万 token），用于计算花费 */
+  modelPrices: ModelPrice[]
+
+  /** HTTP 接口的访问令牌，留空则禁用 HTTP 接口 */
+  apiToken: string
 }
 
 /**
@@ -23,16 +58,21 @@ export function updateBotIdOptions(ctx: Context, botIds: string[]) {
   // 占位符始终放在最前面，作为默认选项
   const placeholder = Schema.const('').description('无')
 
+  // 通配符：* 为默认人设，onebot:* 等匹配同一平台或 ID 前缀的 bot
+  const wildcard = Schema.string().description('通配符（如 * 或 onebot:*）')
+
   if (botIds.length === 0) {
     ctx.schema.set('charon.botId', Schema.union([
       placeholder,
+      wildcard,
     ]))
     return
   }
 
   const options = [
     placeholder,
-    ...botIds.map(botId => Schema.const(botId).description(botId))
+    ...botIds.map(botId => Schema.const(botId).description(botId)),
+    wildcard,
   ]
 
   ctx.schema.set('charon.botId', Schema.union(options))
@@ -58,15 +98,263 @@ export function updatePresetOptions(ctx: Context, presets: PresetWithSource[]) {
   ctx.schema.set('charon.preset', Schema.union(options))
 }
 
+/**
+ * 创建作用域覆盖 Schema
+ */
+const createOverrideSchema = (): Schema<PersonaOverride> => {
+  return Schema.object({
+    scope: Schema.union([
+      Schema.const('guild' as const).description('群组'),
+      Schema.const('channel' as const).description('频道'),
+      Schema.const('private' as const).description('私聊'),
+    ]).description('作用域类型')
+      .default('guild'),
+    guildId: Schema.string()
+      .description('群组 ID（作用域为频道时可选，用于限定所属群组）'),
+    channelId: Schema.string()
+      .description('频道 ID（作用域为频道时必填）'),
+    preset: Schema.dynamic('charon.preset')
+      .description('覆盖的预设（留空则继承 Bot 配置）')
+      .default(''),
+    model: Schema.dynamic('model')
+      .description('覆盖的模型（留空则继承 Bot 配置）')
+      .default(''),
+    chatMode: Schema.union([
+      Schema.const('chat' as const).description('聊天模式'),
+      Schema.const('plugin' as const).description('Agent 模式'),
+    ]).description('覆盖的聊天模式（留空则继承 Bot 配置）'),
+  }) as Schema<PersonaOverride>
+}
+
+/**
+ * 创建时间段人设 Schema
+ */
+const createScheduleSchema = (): Schema<PersonaSchedule> => {
+  return Schema.object({
+    name: Schema.string()
+      .description('名称（用于状态显示）')
+      .required(),
+    days: Schema.array(Schema.union([
+      Schema.const(1).description('周一'),
+      Schema.const(2).description('周二'),
+      Schema.const(3).description('周三'),
+      Schema.const(4).description('周四'),
+      Schema.const(5).description('周五'),
+      Schema.const(6).description('周六'),
+      Schema.const(0).description('周日'),
+    ])).role('checkbox')
+      .description('生效的星期（不选则每天生效）')
+      .default([]),
+    start: Schema.string()
+      .pattern(/^([01]?\d|2[0-3]):[0-5]\d$/)
+      .description('开始时间（HH:mm）')
+      .required(),
+    end: Schema.string()
+      .pattern(/^([01]?\d|2[0-3]):[0-5]\d$/)
+      .description('结束时间（HH:mm，早于开始时间表示跨越午夜）')
+      .required(),
+    timezone: Schema.string()
+      .description('时区（如 Asia/Shanghai，留空使用系统时区）'),
+    preset: Schema.dynamic('charon.preset')
+      .description('该时间段使用的预设（留空则不覆盖）')
+      .default(''),
+    model: Schema.dynamic('model')
+      .description('该时间段使用的模型（留空则不覆盖）')
+      .default(''),
+    chatMode: Schema.union([
+      Schema.const('chat' as const).description('聊天模式'),
+      Schema.const('plugin' as const).description('Agent 模式'),
+    ]).description('该时间段使用的聊天模式（留空则不覆盖）'),
+  }) as Schema<PersonaSchedule>
+}
+
+/**
+ * 创建访问控制 Schema
+ */
+const createAccessListSchema = (): Schema<BotAccessList> => {
+  return Schema.object({
+    allowGuilds: Schema.array(String)
+      .description('允许的群组 ID（留空则不限制）')
+      .default([]),
+    denyGuilds: Schema.array(String)
+      .description('拒绝的群组 ID')
+      .default([]),
+    allowChannels: Schema.array(String)
+      .description('允许的频道 ID（与允许的群组满足其一即可，留空则不限制）')
+      .default([]),
+    denyChannels: Schema.array(String)
+      .description('拒绝的频道 ID')
+      .default([]),
+    allowUsers: Schema.array(String)
+      .description('允许的用户 ID（留空则不限制）')
+      .default([]),
+    denyUsers: Schema.array(String)
+      .description('拒绝的用户 ID')
+      .default([]),
+    refusal: Schema.string()
+      .description('拒绝时回复的消息（留空则不回复）')
+      .default(''),
+  }) as Schema<BotAccessList>
+}
+
+/**
+ * 创建频率限制 Schema
+ */
+const createRateLimitSchema = (): Schema<RateLimitConfig> => {
+  return Schema.object({
+    perUserPerMinute: Schema.natural()
+      .description('每个用户每分钟最多处理的消息数（0 为不限制）')
+      .default(0),
+    perGuildPerHour: Schema.natural()
+      .description('每个群组每小时最多处理的消息数（0 为不限制）')
+      .default(0),
+    perDay: Schema.natural()
+      .description('每天最多处理的消息数，所有群组和私聊合计（0 为不限制）')
+      .default(0),
+    message: Schema.string()
+      .description('超出限制时回复的消息（留空则不回复）')
+      .default('我有点忙不过来了，请稍后再找我吧~'),
+  }) as Schema<RateLimitConfig>
+}
+
+/**
+ * 创建生成参数 Schema（未填写的参数使用模型平台的默认值）
+ */
+const createGenerationSchema = (): Schema<GenerationParams> => {
+  const { temperature, maxTokens, topP, frequencyPenalty, presencePenalty } = GENERATION_PARAM_RANGES
+  return Schema.object({
+    temperature: Schema.number()
+      .min(temperature.min).max(temperature.max).step(0.1)
+      .description('温度，越高回复越随机'),
+    maxTokens: Schema.natural()
+      .min(maxTokens.min).max(maxTokens.max)
+      .description('最大输出 token 数'),
+    topP: Schema.number()
+      .min(topP.min).max(topP.max).step(0.05)
+      .description('核采样'),
+    frequencyPenalty: Schema.number()
+      .min(frequencyPenalty.min).max(frequencyPenalty.max).step(0.1)
+      .description('频率惩罚'),
+    presencePenalty: Schema.number()
+      .min(presencePenalty.min).max(presencePenalty.max).step(0.1)
+      .description('存在惩罚'),
+  }) as Schema<GenerationParams>
+}
+
+/**
+ * 创建每月预算 Schema
+ */
+const createBudgetSchema = (): Schema<BotBudget> => {
+  return Schema.object({
+    monthlyTokens: Schema.natural()
+      .description('每月最多使用的 token 数（0 为不限制）')
+      .default(0),
+    monthlyCost: Schema.number()
+      .min(0)
+      .description('每月最多花费的金额，按模型价格计算（0 为不限制）')
+      .default(0),
+    downgradeModel: Schema.dynamic('model')
+      .description('超出预算后使用的模型（留空则不降级）')
+      .default(''),
+  }) as Schema<BotBudget>
+}
+
+/**
+ * 创建模型价格 Schema
+ */
+const createModelPriceSchema = (): Schema<ModelPrice> => {
+  return Schema.object({
+    model: Schema.dynamic('model')
+      .description('模型')
+      .required(),
+    input: Schema.number()
+      .min(0)
+      .description('输入价格（每百万 token）')
+      .default(0),
+    output: Schema.number()
+      .min(0)
+      .description('输出价格（每百万 token）')
+      .default(0),
+  }) as Schema<ModelPrice>
+}
+
+/**
+ * 创建回复仲裁规则 Schema
+ */
+const createArbitrationSchema = (): Schema<ArbitrationRule> => {
+  return Schema.object({
+    guildId: Schema.string()
+      .description('群组 ID（* 表示所有未单独配置的群组）')
+      .required(),
+    policy: Schema.union([
+      Schema.const('mention' as const).description('仅回复 @ 自己的消息'),
+      Schema.const('keyword' as const).description('关键词/昵称匹配'),
+      Schema.const('round-robin' as const).description('轮流回复'),
+      Schema.const('random' as const).description('按权重随机'),
+      Schema.const('last-speaker' as const).description('用户上次对话的 bot'),
+    ]).description('仲裁策略（被 @ 或引用回复的 bot 始终优先）')
+      .default('mention'),
+    bots: Schema.array(Schema.object({
+      botId: Schema.dynamic('charon.botId')
+        .description('Bot ID')
+        .required(),
+      weight: Schema.natural()
+        .description('随机策略下的权重')
+        .default(1),
+      keywords: Schema.array(String)
+        .description('关键词策略下触发该 bot 的关键词（bot 昵称会自动加入）')
+        .default([]),
+    })).description('参与仲裁的 bot（留空则为同平台所有启用人设的 bot）')
+      .default([]),
+  }) as Schema<ArbitrationRule>
+}
+
+/**
+ * 创建防循环配置 Schema
+ */
+const createLoopGuardSchema = (): Schema<LoopGuardConfig> => {
+  return Schema.object({
+    policy: Schema.union([
+      Schema.const('ignore' as const).description('忽略受管 bot 的消息'),
+      Schema.const('limit' as const).description('时间窗口内限制轮数'),
+      Schema.const('mention' as const).description('仅在被 @ 时回复'),
+    ]).description('收到其他受管 bot 的消息时的处理策略')
+      .default('ignore'),
+    maxTurns: Schema.natural()
+      .min(1)
+      .description('限制轮数策略下，每个 bot 在同一频道的时间窗口内最多回复其他 bot 的次数')
+      .default(3),
+    window: Schema.natural()
+      .min(1)
+      .description('限制轮数策略的时间窗口（秒）')
+      .default(300),
+  }) as Schema<LoopGuardConfig>
+}
+
+/**
+ * 创建圆桌讨论配置 Schema
+ */
+const createRoundtableSchema = (): Schema<RoundtableConfig> => {
+  return Schema.object({
+    maxTurns: Schema.natural()
+      .min(2)
+      .description('单场讨论允许的最大轮数（指令中指定的轮数不会超过此值）')
+      .default(10),
+    turnInterval: Schema.natural()
+      .description('每轮发言之间的间隔（秒）')
+      .default(3),
+  }) as Schema<RoundtableConfig>
+}
+
 /**
  * 创建单个 Bot 配置 Schema
  */
-const createBotConfigSchema = (): Schema<BotPersonaConfig> => {
+export const createBotConfigSchema = (): Schema<BotPersonaConfig> => {
   return Schema.intersect([
     // Bot 选择
     Schema.object({
       botId: Schema.dynamic('charon.botId')
-        .description('**Bot ID**<br>从 multi-bot-controller 已配置的 Bot 中选择')
+        .description('**Bot ID**<br>从 multi-bot-controller 已配置的 Bot 中选择，也可以填写通配符：`*` 为未单独配置的 Bot 的默认人设，`onebot:*`、`discord:1234*` 匹配指定平台或 ID 前缀，按具体程度优先匹配')
         .required(),
       enabled: Schema.boolean()
         .default(true)
@@ -86,6 +374,79 @@ const createBotConfigSchema = (): Schema<BotPersonaConfig> => {
         Schema.const('plugin' as const).description('Agent 模式'),
       ]).description('聊天模式')
         .default('chat'),
+      fallbackModels: Schema.array(Schema.dynamic('model'))
+        .default([])
+        .description('**回退模型**<br>主模型连续失败时依次尝试的模型，冷却结束后会重新尝试主模型'),
+    }),
+
+    // 预设变量
+    Schema.object({
+      variables: Schema.dict(String)
+        .role('table')
+        .default({})
+        .description('**预设变量**<br>注入到预设中的变量，预设中使用 `{变量名}` 引用，例如 nickname、owner、catchphrase；会覆盖同名的自动变量'),
+    }),
+
+    // 生成参数
+    Schema.object({
+      generation: createGenerationSchema()
+        .description('**生成参数**<br>仅对该 bot 的会话生效，留空则使用模型平台的默认值'),
+    }),
+
+    // 私聊人设
+    Schema.object({
+      privatePreset: Schema.dynamic('charon.preset')
+        .description('**私聊预设**<br>私聊时使用的预设（留空则与群聊相同）')
+        .default(''),
+      privateModel: Schema.dynamic('model')
+        .description('**私聊模型**<br>私聊时使用的模型（留空则与群聊相同）')
+        .default(''),
+      privateChatMode: Schema.union([
+        Schema.const('chat' as const).description('聊天模式'),
+        Schema.const('plugin' as const).description('Agent 模式'),
+      ]).description('**私聊聊天模式**（留空则与群聊相同）'),
+    }),
+
+    // 作用域覆盖
+    Schema.object({
+      overrides: Schema.array(createOverrideSchema())
+        .default([])
+        .description('**作用域覆盖**<br>为指定群组、频道或私聊使用不同的人设，按 频道 > 群组 > 私聊 的优先级匹配，每个作用域使用独立的 room'),
+    }),
+
+    // 定时切换
+    Schema.object({
+      schedules: Schema.array(createScheduleSchema())
+        .default([])
+        .description('**定时切换**<br>在指定时间段使用不同的预设或模型，优先于作用域覆盖，多个时间段同时生效时使用第一个'),
+    }),
+
+    // 访问控制
+    Schema.object({
+      acl: createAccessListSchema()
+        .description('**访问控制**<br>拒绝列表优先；允许列表为空时不限制，私聊不受群组和频道的允许列表限制'),
+    }),
+
+    // 频率限制
+    Schema.object({
+      limits: createRateLimitSchema()
+        .description('**频率限制**<br>限制 bot 处理的消息数，计数保存在数据库中，重启后不会清零'),
+    }),
+
+    // 每月预算
+    Schema.object({
+      budget: createBudgetSchema()
+        .description('**每月预算**<br>当月用量超出后自动切换到降级模型，下个月恢复'),
+    }),
+
+    // 用户可选人设
+    Schema.object({
+      userPresets: Schema.array(Schema.dynamic('charon.preset'))
+        .default([])
+        .description('**用户可选预设**<br>用户可以通过 `charon.persona <预设>` 切换，每个用户选择的预设使用独立的 room'),
+      userModels: Schema.array(Schema.dynamic('model'))
+        .default([])
+        .description('**用户可选模型**<br>用户可以通过 `charon.persona <模型>` 切换'),
     }),
   ]) as Schema<BotPersonaConfig>
 }
@@ -106,6 +467,38 @@ export const createConfig = (ctx: Context): Schema<Config> => {
         .description('**Bot 人设配置列表**\n\n添加 Bot 后，可以为每个 Bot 配置独立的预设和模型'),
     }),
 
+    Schema.object({
+      arbitration: Schema.array(createArbitrationSchema())
+        .default([])
+        .description('**回复仲裁规则**<br>多个 bot 在同一群组时，决定由哪个 bot 回复未 @ 任何 bot 的消息，未配置的群组不做仲裁'),
+    }).description('多 Bot 回复仲裁'),
+
+    Schema.object({
+      loopGuard: createLoopGuardSchema()
+        .description('受管 bot 之间互相回复的处理方式'),
+    }).description('防循环'),
+
+    Schema.object({
+      roundtable: createRoundtableSchema()
+        .description('charon.roundtable 指令发起的多 bot 讨论'),
+    }).description('圆桌讨论'),
+
+    Schema.object({
+      fallbackThreshold: Schema.natural()
+        .min(1)
+        .description('模型连续失败多少次后切换到回退模型')
+        .default(2),
+      fallbackCooldown: Schema.natural()
+        .description('失败模型的冷却时间（秒），冷却结束后重新尝试该模型')
+        .default(300),
+    }).description('模型回退'),
+
+    Schema.object({
+      modelPrices: Schema.array(createModelPriceSchema())
+        .default([])
+        .description('模型价格，用于 charon.usage 和每月预算计算花费（未配置的模型不计花费）'),
+    }).description('用量统计'),
+
     Schema.object({
       debug: Schema.boolean()
         .description('是否输出调试日志')
@@ -113,6 +506,10 @@ export const createConfig = (ctx: Context): Schema<Config> => {
       verboseLogging: Schema.boolean()
         .description('显示详细日志（关闭后只输出关键信息）')
         .default(false),
+      apiToken: Schema.string()
+        .role('secret')
+        .description('HTTP 接口的访问令牌，请求需携带 `Authorization: Bearer <令牌>`；留空则禁用 HTTP 接口（控制台页面不受影响）')
+        .default(''),
     }).description('高级设置'),
   ]) as Schema<Config>
 }
@@ -120,37 +517,44 @@ export const createConfig = (ctx: Context): Schema<Config> => {
 // 静态导出（用于配置界面）
 export const Config: Schema<Config> = Schema.intersect([
   Schema.object({
-    bots: Schema.array(
-      Schema.intersect([
-        // Bot 选择
-        Schema.object({
-          botId: Schema.dynamic('charon.botId')
-            .description('**Bot ID**<br>从 multi-bot-controller 已配置的 Bot 中选择')
-            .required(),
-          enabled: Schema.boolean()
-            .default(true)
-            .description('是否启用此 bot 的人设'),
-        }),
-        // ChatLuna 配置
-        Schema.object({
-          model: Schema.dynamic('model')
-            .description('**使用的模型**<br>从 ChatLuna 已配置的模型中选择')
-            .default(''),
-          preset: Schema.dynamic('charon.preset')
-            .description('**使用的预设**<br>会自动加载 ChatLuna 和 character 的预设')
-            .default(''),
-          chatMode: Schema.union([
-            Schema.const('chat' as const).description('聊天模式'),
-            Schema.const('plugin' as const).description('Agent 模式'),
-          ]).description('聊天模式')
-            .default('chat'),
-        }),
-      ]) as Schema<BotPersonaConfig>
-    ).role('list')
+    bots: Schema.array(createBotConfigSchema())
+      .role('list')
       .default([])
       .description('**Bot 人设配置列表**\n\n添加 Bot 后，可以为每个 Bot 配置独立的预设和模型'),
   }),
 
+  Schema.object({
+    arbitration: Schema.array(createArbitrationSchema())
+      .default([])
+      .description('**回复仲裁规则**<br>多个 bot 在同一群组时，决定由哪个 bot 回复未 @ 任何 bot 的消息，未配置的群组不做仲裁'),
+  }).description('多 Bot 回复仲裁'),
+
+  Schema.object({
+    loopGuard: createLoopGuardSchema()
+      .description('受管 bot 之间互相回复的处理方式'),
+  }).description('防循环'),
+
+  Schema.object({
+    roundtable: createRoundtableSchema()
+      .description('charon.roundtable 指令发起的多 bot 讨论'),
+  }).description('圆桌讨论'),
+
+  Schema.object({
+    fallbackThreshold: Schema.natural()
+      .min(1)
+      .description('模型连续失败多少次后切换到回退模型')
+      .default(2),
+    fallbackCooldown: Schema.natural()
+      .description('失败模型的冷却时间（秒），冷却结束后重新尝试该模型')
+      .default(300),
+  }).description('模型回退'),
+
+  Schema.object({
+    modelPrices: Schema.array(createModelPriceSchema())
+      .default([])
+      .description('模型价格，用于 charon.usage 和每月预算计算花费（未配置的模型不计花费）'),
+  }).description('用量统计'),
+
   Schema.object({
     debug: Schema.boolean()
       .description('是否输出调试日志')
@@ -158,6 +562,10 @@ export const Config: Schema<Config> = Schema.intersect([
     verboseLogging: Schema.boolean()
       .description('显示详细日志（关闭后只输出关键信息）')
       .default(false),
+    apiToken: Schema.string()
+      .role('secret')
+      .description('HTTP 接口的访问令牌，请求需携带 `Authorization: Bearer <令牌>`；留空则禁用 HTTP 接口（控制台页面不受影响）')
+      .default(''),
   }).description('高级设置'),
 ]) as Schema<Config>
 
@@ -0,0 +1,40 @@
+// src/data-service.ts
+import { Context } from 'koishi'
+import { DataService } from '@koishijs/console'
+import { getCharonData } from './api'
+import { BotManager } from './bot-manager'
+import type { CharonData } from './types'
+
+/** 合并短时间内的多次变更后再推送（毫秒） */
+const REFRESH_DELAY = 300
+
+declare module '@koishijs/console' {
+  namespace Console {
+    interface Services {
+      charon: CharonProvider
+    }
+  }
+}
+
+/**
+ * 控制台数据服务
+ * 通过控制台的 websocket 向页面推送 bot 配置、运行状态、预设和模型列表，
+ * 收到 charon/updated 事件、ChatLuna 就绪或 multi-bot-controller 的 bot 列表变化时自动刷新
+ *
+ * 本模块依赖 @koishijs/console，只在控制台插件可用时由 index.ts 加载
+ */
+export class CharonProvider extends DataService<CharonData> {
+  constructor(ctx: Context, private botManager: BotManager) {
+    super(ctx, 'charon', { authority: 4 })
+
+    const refresh = ctx.debounce(() => this.refresh(), REFRESH_DELAY)
+    ctx.on('charon/updated', refresh)
+    // 模型列表在 ChatLuna 就绪后才可用
+    ctx.on('chatluna/ready', refresh)
+    ctx.on('multi-bot-controller/bots-updated', refresh)
+  }
+
+  async get(): Promise<CharonData> {
+    return getCharonData(this.botManager)
+  }
+}
@@ -0,0 +1,74 @@
+// src/guards/access.ts
+import { Context } from 'koishi'
+import { BotAccessList, BotPersonaConfig, ChainGuard, GuardResult } from '../types'
+
+/**
+ * 访问控制守卫
+ * 按 bot 配置的允许/拒绝列表决定是否处理消息：
+ * - 拒绝列表优先，命中任一拒绝列表即拒绝
+ * - 群聊中配置了允许的群组或频道时，群组或频道需在其中之一
+ * - 配置了允许的用户时，用户需在其中
+ */
+export class AccessGuard implements ChainGuard {
+  readonly name = 'acl'
+
+  private readonly logger: ReturnType<Context['logger']>
+
+  constructor(
+    private ctx: Context,
+    private config: {
+      debug: boolean
+    }
+  ) {
+    this.logger = ctx.logger('chatluna-charon:acl')
+  }
+
+  check(session: any, botConfig: BotPersonaConfig): GuardResult {
+    const acl = botConfig.acl
+    if (!acl) {
+      return { allow: true }
+    }
+
+    const reason = this.evaluate(session, acl)
+    if (!reason) {
+      return { allow: true }
+    }
+
+    this.debug(
+      `${botConfig.botId} 拒绝处理 ${session.guildId || 'private'}/${session.channelId}/${session.userId} 的消息: ${reason}`
+    )
+    return { allow: false, reply: acl.refusal || undefined }
+  }
+
+  /**
+   * 判断会话是否被拒绝
+   * @returns 拒绝原因，允许时返回 undefined
+   */
+  private evaluate(session: any, acl: BotAccessList): string | undefined {
+    const { guildId, channelId, userId } = session
+
+    if (acl.denyUsers?.includes(userId)) return '用户在拒绝列表中'
+    if (guildId && acl.denyGuilds?.includes(guildId)) return '群组在拒绝列表中'
+    if (guildId && acl.denyChannels?.includes(channelId)) return '频道在拒绝列表中'
+
+    if (guildId && (acl.allowGuilds?.length || acl.allowChannels?.length)) {
+      const allowed = acl.allowGuilds?.includes(guildId) || acl.allowChannels?.includes(channelId)
+      if (!allowed) return '群组和频道不在允许列表中'
+    }
+
+    if (acl.allowUsers?.length && !acl.allowUsers.includes(userId)) {
+      return '用户不在允许列表中'
+    }
+
+    return undefined
+  }
+
+  /**
+   * 输出调试日志
+   */
+  private debug(...args: unknown[]): void {
+    if (this.config.debug) {
+      this.logger.debug(args as any)
+    }
+  }
+}
@@ -0,0 +1,279 @@
+// src/guards/arbitration.ts
+import { Context } from 'koishi'
+import { BotManager } from '../bot-manager'
+import {
+  ArbitrationBot,
+  ArbitrationRule,
+  BotPersonaConfig,
+  ChainGuard,
+  GuardResult,
+} from '../types'
+
+/** 收集同一条消息在各个 bot 上的会话的等待时间（毫秒） */
+const COLLECT_WINDOW = 500
+
+/** 仲裁结果的缓存时间（毫秒） */
+const DECISION_TTL = 10_000
+
+/** 轮询计数、最近回复者等按群组或用户记录的状态的最大条数 */
+const MAX_TRACKED = 1000
+
+/** 一条消息的仲裁状态 */
+interface PendingDecision {
+  /** 已收到此消息的 bot */
+  present: Set<string>
+  /** 仲裁结果：允许回复的 bot */
+  winners: Promise<Set<string>>
+  /** 过期时间 */
+  expiresAt: number
+}
+
+/**
+ * 多 Bot 回复仲裁
+ * 多个 Charon 管理的 bot 在同一群组时，每个 bot 的会话会独立进入 chain，
+ * 仲裁器收集同一条消息的所有会话后按群组策略选出回复的 bot，其余 bot 返回 STOP
+ *
+ * 无论哪种策略，被 @ 或被引用回复的 bot 总是优先回复
+ */
+export class ReplyArbiter implements ChainGuard {
+  readonly name = 'arbitration'
+
+  private readonly logger: ReturnType<Context['logger']>
+  private readonly decisions: Map<string, PendingDecision> = new Map()
+  /** 群组 -> 轮询计数 */
+  private readonly roundRobin: Map<string, number> = new Map()
+  /** 群组:用户 -> 最近回复该用户的 bot */
+  private readonly lastSpeakers: Map<string, string> = new Map()
+
+  constructor(
+    private ctx: Context,
+    private botManager: BotManager,
+    private config: {
+      rules: ArbitrationRule[]
+      debug: boolean
+    }
+  ) {
+    this.logger = ctx.logger('chatluna-charon:arbitration')
+  }
+
+  async check(session: any, botConfig: BotPersonaConfig): Promise<GuardResult> {
+    // 私聊不需要仲裁
+    if (!session.guildId) {
+      return { allow: true }
+    }
+
+    const rule = this.findRule(session.guildId)
+    if (!rule) {
+      return { allow: true }
+    }
+
+    const candidates = this.getCandidates(rule, session.platform)
+    if (!candidates.some(c => c.botId === botConfig.botId)) {
+      return { allow: true }
+    }
+
+    // 只有当前 bot 参与仲裁时不需要等待其他 bot 的会话
+    if (candidates.length === 1) {
+      return { allow: true }
+    }
+
+    this.prune()
+
+    const key = this.getMessageKey(session)
+    let pending = this.decisions.get(key)
+    if (pending) {
+      pending.present.add(botConfig.botId)
+    } else {
+      const present = new Set([botConfig.botId])
+      const winners = new Promise<void>(resolve => setTimeout(resolve, COLLECT_WINDOW))
+        .then(() => this.decide(rule, candidates.filter(c => present.has(c.botId)), session))
+
+      pending = { present, winners, expiresAt: Date.now() + DECISION_TTL }
+      this.decisions.set(key, pending)
+    }
+
+    const winners = await pending.winners
+    return { allow: winners.has(botConfig.botId) }
+  }
+
+  /**
+   * 按策略选出回复的 bot
+   */
+  private decide(rule: ArbitrationRule, candidates: ArbitrationBot[], session: any): Set<string> {
+    const winners = new Set<string>()
+    if (candidates.length === 0) {
+      return winners
+    }
+
+    const mentioned = candidates.filter(c => this.isMentioned(c.botId, session))
+    if (mentioned.length > 0) {
+      mentioned.forEach(c => winners.add(c.botId))
+    } else {
+      const winner = this.pick(rule, candidates, session)
+      if (winner) winners.add(winner)
+    }
+
+    for (const botId of winners) {
+      setBounded(this.lastSpeakers, `${session.guildId}:${session.userId}`, botId)
+    }
+
+    this.debug(
+      `群组 ${session.guildId} 仲裁 (${rule.policy}): ` +
+      `候选 ${candidates.map(c => c.botId).join(', ')} -> ${[...winners].join(', ') || '无'}`
+    )
+    return winners
+  }
+
+  /**
+   * 没有 bot 被 @ 时按策略选出一个 bot
+   */
+  private pick(rule: ArbitrationRule, candidates: ArbitrationBot[], session: any): string | undefined {
+    switch (rule.policy) {
+      case 'mention':
+        return undefined
+      case 'keyword':
+        return this.pickByKeyword(candidates, session)
+      case 'round-robin': {
+        const count = this.roundRobin.get(session.guildId) ?? 0
+        setBounded(this.roundRobin, session.guildId, count + 1)
+        return candidates[count % candidates.length].botId
+      }
+      case 'random':
+        return this.pickByWeight(candidates)
+      case 'last-speaker': {
+        const last = this.lastSpeakers.get(`${session.guildId}:${session.userId}`)
+        return candidates.some(c => c.botId === last) ? last : this.pickByWeight(candidates)
+      }
+      default:
+        return undefined
+    }
+  }
+
+  /**
+   * 选出关键词（或昵称）在消息中最先出现的 bot
+   */
+  private pickByKeyword(candidates: ArbitrationBot[], session: any): string | undefined {
+    const content = (session.content ?? '').toLowerCase()
+    let best: { botId: string; index: number } | undefined
+
+    for (const candidate of candidates) {
+      const keywords = [...(candidate.keywords || [])]
+      const nickname = this.getNickname(candidate.botId)
+      if (nickname) keywords.push(nickname)
+
+      for (const keyword of keywords) {
+        if (!keyword) continue
+        const index = content.indexOf(keyword.toLowerCase())
+        if (index >= 0 && (!best || index < best.index)) {
+          best = { botId: candidate.botId, index }
+        }
+      }
+    }
+
+    return best?.botId
+  }
+
+  /**
+   * 按权重随机选出一个 bot
+   */
+  private pickByWeight(candidates: ArbitrationBot[]): string | undefined {
+    const weights = candidates.map(c => Math.max(0, c.weight ?? 1))
+    const total = weights.reduce((sum, w) => sum + w, 0)
+    if (total <= 0) return undefined
+
+    let roll = Math.random() * total
+    for (let i = 0; i < candidates.length; i++) {
+      roll -= weights[i]
+      if (roll < 0) return candidates[i].botId
+    }
+    return candidates[candidates.length - 1].botId
+  }
+
+  /**
+   * 判断 bot 是否被 @ 或被引用回复
+   */
+  private isMentioned(botId: string, session: any): boolean {
+    const { selfId } = this.botManager.parseBotId(botId)
+    if (session.quote?.user?.id === selfId) {
+      return true
+    }
+    return (session.elements || []).some((element: any) =>
+      element.type === 'at' && element.attrs?.id === selfId
+    )
+  }
+
+  /**
+   * 获取 bot 在平台上的昵称
+   */
+  private getNickname(botId: string): string | undefined {
+    const { platform, selfId } = this.botManager.parseBotId(botId)
+    const bot = this.ctx.bots.find(b => b.platform === platform && b.selfId === selfId)
+    return bot?.user?.name
+  }
+
+  /**
+   * 查找群组适用的仲裁规则（单独配置的群组优先于 *）
+   */
+  private findRule(guildId: string): ArbitrationRule | undefined {
+    return this.config.rules.find(r => r.guildId === guildId) ||
+      this.config.rules.find(r => r.guildId === '*')
+  }
+
+  /**
+   * 获取参与仲裁的 bot
+   */
+  private getCandidates(rule: ArbitrationRule, platform: string): ArbitrationBot[] {
+    const enabled = new Set(this.botManager.getEnabledBots().map(b => b.botId))
+
+    if (rule.bots?.length) {
+      return rule.bots.filter(b => enabled.has(b.botId))
+    }
+
+    return [...enabled]
+      .filter(botId => this.botManager.parseBotId(botId).platform === platform)
+      .map(botId => ({ botId }))
+  }
+
+  /**
+   * 生成消息的唯一键
+   * 使用平台、频道和 messageId；适配器没有提供 messageId 时退回到发送者、时间和内容
+   */
+  private getMessageKey(session: any): string {
+    const id = session.messageId
+      ? [session.messageId]
+      : [session.userId, session.timestamp, session.content]
+    return [session.platform, session.channelId, ...id].join('|')
+  }
+
+  /**
+   * 清理过期的仲裁结果
+   */
+  private prune(): void {
+    const now = Date.now()
+    for (const [key, pending] of this.decisions) {
+      if (pending.expiresAt <= now) {
+        this.decisions.delete(key)
+      }
+    }
+  }
+
+  /**
+   * 输出调试日志
+   */
+  private debug(...args: unknown[]): void {
+    if (this.config.debug) {
+      this.logger.debug(args as any)
+    }
+  }
+}
+
+/**
+ * 写入 Map 并把该键移到末尾，超过 MAX_TRACKED 时删除最久未更新的条目
+ */
+function setBounded<K, V>(map: Map<K, V>, key: K, value: V): void {
+  map.delete(key)
+  map.set(key, value)
+  while (map.size > MAX_TRACKED) {
+    map.delete(map.keys().next().value as K)
+  }
+}
@@ -0,0 +1,131 @@
+// src/guards/loop.ts
+import { Context } from 'koishi'
+import { BotManager } from '../bot-manager'
+import { BotPersonaConfig, ChainGuard, GuardResult, LoopGuardConfig } from '../types'
+
+/** 单个 bot 的防循环计数 */
+export interface LoopGuardStats {
+  /** 收到的其他受管 bot 的消息数 */
+  detected: number
+  /** 放行的消息数 */
+  allowed: number
+  /** 拦截的消息数 */
+  blocked: number
+}
+
+/**
+ * 防循环守卫
+ * 同一群组中的多个人设 bot 可能互相回复形成死循环，
+ * 此守卫识别由受管 bot（Charon 配置或 multi-bot-controller 中的 bot）发送的消息，并按策略拦截
+ */
+export class LoopGuard implements ChainGuard {
+  readonly name = 'loop'
+
+  private readonly logger: ReturnType<Context['logger']>
+  /** botId -> 计数 */
+  private readonly stats: Map<string, LoopGuardStats> = new Map()
+  /** botId|channelId -> 时间窗口内回复其他 bot 的时间戳 */
+  private readonly turns: Map<string, number[]> = new Map()
+
+  constructor(
+    private ctx: Context,
+    private botManager: BotManager,
+    private config: LoopGuardConfig & {
+      debug: boolean
+    }
+  ) {
+    this.logger = ctx.logger('chatluna-charon:loop')
+  }
+
+  check(session: any, botConfig: BotPersonaConfig): GuardResult {
+    if (!this.isManagedBot(session.platform, session.userId)) {
+      return { allow: true }
+    }
+
+    const allow = this.evaluate(session, botConfig)
+    const stats = this.getStats(botConfig.botId)
+    stats.detected++
+    if (allow) {
+      stats.allowed++
+    } else {
+      stats.blocked++
+    }
+
+    this.debug(
+      `${botConfig.botId} 收到受管 bot ${session.platform}:${session.userId} 的消息 ` +
+      `(${this.config.policy}): ${allow ? '放行' : '拦截'}`
+    )
+    return { allow }
+  }
+
+  /**
+   * 获取 bot 的防循环计数
+   */
+  getStats(botId: string): LoopGuardStats {
+    let stats = this.stats.get(botId)
+    if (!stats) {
+      stats = { detected: 0, allowed: 0, blocked: 0 }
+      this.stats.set(botId, stats)
+    }
+    return stats
+  }
+
+  /**
+   * 按策略判断是否放行
+   */
+  private evaluate(session: any, botConfig: BotPersonaConfig): boolean {
+    switch (this.config.policy) {
+      case 'ignore':
+        return false
+      case 'mention':
+        return this.isMentioned(session)
+      case 'limit': {
+        const key = `${botConfig.botId}|${session.channelId}`
+        const now = Date.now()
+        const since = now - this.config.window * 1000
+        const recent = (this.turns.get(key) || []).filter(time => time > since)
+
+        if (recent.length >= this.config.maxTurns) {
+          this.turns.set(key, recent)
+          return false
+        }
+
+        recent.push(now)
+        this.turns.set(key, recent)
+        return true
+      }
+      default:
+        return true
+    }
+  }
+
+  /**
+   * 判断消息发送者是否为受管 bot
+   */
+  private isManagedBot(platform: string, userId: string): boolean {
+    if (!userId) return false
+    const botId = this.botManager.getBotId(platform, userId)
+    // 通配符配置会匹配任意用户，只按精确配置和已知 bot 判断
+    return !!this.botManager.getExplicitBotConfig(botId) ||
+      this.botManager.getKnownBotIds().includes(botId)
+  }
+
+  /**
+   * 判断当前 bot 是否被显式 @
+   */
+  private isMentioned(session: any): boolean {
+    const selfId = session.bot?.selfId ?? session.selfId
+    return (session.elements || []).some((element: any) =>
+      element.type === 'at' && element.attrs?.id === selfId
+    )
+  }
+
+  /**
+   * 输出调试日志
+   */
+  private debug(...args: unknown[]): void {
+    if (this.config.debug) {
+      this.logger.debug(args as any)
+    }
+  }
+}
@@ -0,0 +1,215 @@
+// src/guards/rate-limit.ts
+import { Context } from 'koishi'
+import { RateCounterStore } from '../rate-counter'
+import { BotPersonaConfig, ChainGuard, GuardResult, RateCounter, RateLimitConfig } from '../types'
+
+/** 计数保留时间（毫秒），早于此时间的计数会在启动时清理 */
+const COUNTER_RETENTION = 2 * 24 * 60 * 60 * 1000
+
+/** 清理内存中过期计数的间隔（毫秒） */
+const CACHE_PRUNE_INTERVAL = 60_000
+
+/** 一项适用于当前消息的限制 */
+interface RateRule {
+  /** 计数键 */
+  key: string
+  /** 时间窗口的开始时间 */
+  windowStart: Date
+  /** 时间窗口内允许的消息数 */
+  limit: number
+  /** 显示名称 */
+  label: string
+}
+
+/** 一项计数的当前用量 */
+export interface QuotaUsage {
+  key: string
+  label: string
+  count: number
+  limit: number
+}
+
+/**
+ * 频率限制守卫
+ * 按 bot 配置限制每个用户每分钟、每个群组每小时和每天处理的消息数，
+ * 计数保存在 charon_rate_counter 表中，重启后不会清零
+ *
+ * 放在其他守卫之后运行，只统计当前 bot 实际会处理的消息
+ */
+export class RateLimitGuard implements ChainGuard {
+  readonly name = 'rate-limit'
+
+  private readonly logger: ReturnType<Context['logger']>
+  private readonly counters: RateCounterStore
+  /** botId -> 检查队列，串行化同一 bot 的检查和计数，避免并发的消息同时通过检查 */
+  private readonly queues: Map<string, Promise<unknown>> = new Map()
+
+  constructor(
+    private ctx: Context,
+    private config: {
+      debug: boolean
+    }
+  ) {
+    this.logger = ctx.logger('chatluna-charon:rate-limit')
+    this.counters = new RateCounterStore(ctx)
+
+    ctx.on('ready', async () => {
+      try {
+        await this.counters.cleanup(new Date(Date.now() - COUNTER_RETENTION))
+      } catch (error) {
+        this.logger.warn('清理过期的频率限制计数失败:', error)
+      }
+    })
+
+    ctx.setInterval(() => {
+      const now = new Date()
+      this.counters.pruneCache(counter => this.isCurrentWindow(counter, now))
+    }, CACHE_PRUNE_INTERVAL)
+  }
+
+  async check(session: any, botConfig: BotPersonaConfig): Promise<GuardResult> {
+    const rules = this.getRules(session, botConfig.limits)
+    if (rules.length === 0) {
+      return { allow: true }
+    }
+
+    const botId = botConfig.botId
+    const task = (this.queues.get(botId) ?? Promise.resolve())
+      .then(() => this.consume(botConfig, rules))
+    const tail = task.catch(() => {})
+    this.queues.set(botId, tail)
+
+    try {
+      return await task
+    } finally {
+      if (this.queues.get(botId) === tail) {
+        this.queues.delete(botId)
+      }
+    }
+  }
+
+  /**
+   * 检查所有限制，全部未超出时计数
+   * 任一限制超出时不计数，被拒绝的消息不会占用群组和每日的额度
+   */
+  private async consume(botConfig: BotPersonaConfig, rules: RateRule[]): Promise<GuardResult> {
+    const botId = botConfig.botId
+    for (const rule of rules) {
+      const count = await this.counters.get(botId, rule.key, rule.windowStart)
+      if (count >= rule.limit) {
+        this.debug(`${botId} 超出${rule.label}限制 (${count}/${rule.limit})`)
+        return { allow: false, reply: botConfig.limits.message || undefined }
+      }
+    }
+
+    for (const rule of rules) {
+      await this.counters.increment(botId, rule.key, rule.windowStart)
+    }
+    return { allow: true }
+  }
+
+  /**
+   * 获取 bot 在当前时间窗口内的用量
+   */
+  async getUsage(botConfig: BotPersonaConfig): Promise<QuotaUsage[]> {
+    const limits = botConfig.limits
+    if (!limits) return []
+
+    const now = new Date()
+    const counters = await this.counters.list(botConfig.botId)
+    const usage: QuotaUsage[] = []
+
+    for (const counter of counters) {
+      const [type, id] = this.splitKey(counter.key)
+      const limit = this.getLimit(type, limits)
+      if (!limit || !this.isCurrentWindow(counter, now)) continue
+
+      usage.push({
+        key: counter.key,
+        label: this.getLabel(type, id),
+        count: counter.count,
+        limit,
+      })
+    }
+
+    return usage.sort((a, b) => b.count / b.limit - a.count / a.limit)
+  }
+
+  /**
+   * 获取适用于当前消息的限制
+   */
+  private getRules(session: any, limits: RateLimitConfig | undefined): RateRule[] {
+    if (!limits) return []
+
+    const now = new Date()
+    const rules: RateRule[] = []
+    const add = (type: string, id?: string) => {
+      const limit = this.getLimit(type, limits)
+      if (!limit) return
+      rules.push({
+        key: id ? `${type}:${id}` : type,
+        windowStart: this.getWindowStart(type, now),
+        limit,
+        label: this.getLabel(type, id),
+      })
+    }
+
+    add('user', session.userId)
+    if (session.guildId) {
+      add('guild', session.guildId)
+    }
+    add('day')
+    return rules
+  }
+
+  private getLimit(type: string, limits: RateLimitConfig): number {
+    switch (type) {
+      case 'user': return limits.perUserPerMinute
+      case 'guild': return limits.perGuildPerHour
+      case 'day': return limits.perDay
+      default: return 0
+    }
+  }
+
+  /**
+   * 获取当前时间窗口的开始时间（每天的窗口从本地时间零点开始）
+   */
+  private getWindowStart(type: string, now: Date): Date | undefined {
+    switch (type) {
+      case 'user': return new Date(Math.floor(now.getTime() / 60_000) * 60_000)
+      case 'guild': return new Date(Math.floor(now.getTime() / 3_600_000) * 3_600_000)
+      case 'day': return new Date(now.getFullYear(), now.getMonth(), now.getDate())
+      default: return undefined
+    }
+  }
+
+  /**
+   * 判断计数是否处于当前时间窗口
+   */
+  private isCurrentWindow(counter: RateCounter, now: Date): boolean {
+    const windowStart = this.getWindowStart(this.splitKey(counter.key)[0], now)
+    return !!windowStart && counter.windowStart.getTime() === windowStart.getTime()
+  }
+
+  private getLabel(type: string, id?: string): string {
+    switch (type) {
+      case 'user': return `用户 ${id} 每分钟`
+      case 'guild': return `群组 ${id} 每小时`
+      default: return '每日'
+    }
+  }
+
+  private splitKey(key: string): [string, string | undefined] {
+    const index = key.indexOf(':')
+    return index < 0 ? [key, undefined] : [key.slice(0, index), key.slice(index + 1)]
+  }
+
+  /**
+   * 输出调试日志
+   */
+  private debug(...args: unknown[]): void {
+    if (this.config.debug) {
+      this.logger.debug(args as any)
+    }
+  }
+}
@@ -3,17 +3,32 @@ import { Context, Schema } from 'koishi'
 import {} from '@koishijs/plugin-server'
 import { createConfig, Config, updateBotIdOptions } from './config'
 import { BotManager } from './bot-manager'
+import { PersonaStore } from './persona-store'
+import { PersonaReconciler } from './reconciler'
+import { registerManagementCommands, registerUserCommands } from './commands'
+import { CharonApi, registerConsoleApi, registerHttpApi } from './api'
+import { PersonaTransfer, registerTransferCommands } from './transfer'
+import { RoundtableManager, registerRoundtableCommands } from './roundtable'
 import { RoomInterceptor } from './interceptors/room'
 import { ChainInterceptor } from './interceptors/chain'
 import { MemoryInterceptor } from './interceptors/memory'
-import type { BotPersonaConfig } from './types'
+import { FallbackInterceptor } from './interceptors/fallback'
+import { UsageInterceptor } from './interceptors/usage'
+import { GenerationInterceptor } from './interceptors/generation'
+import { VariablesInterceptor } from './interceptors/variables'
+import { ReplyArbiter } from './guards/arbitration'
+import { LoopGuard } from './guards/loop'
+import { AccessGuard } from './guards/access'
+import { RateLimitGuard } from './guards/rate-limit'
+import { PresetSource } from './types'
+import type { BotSyncResult } from './types'
 
 export const name = 'multi-bot-controller-chatluna-charon'
 
 // 声明服务依赖
 export const inject = {
     required: ['chatluna', 'multi-bot-controller', 'database'],
-    optional: ['chatluna_character', 'server'],
+    optional: ['chatluna_character', 'server', 'console'],
 }
 
 export { Config }
@@ -67,7 +82,7 @@ export function apply(ctx: Context, config: Config): void {
   // 动态 Schema 更新服务
   // 从 multi-bot-controller 获取已配置的 bot 列表
   // ========================================
-  function setupBotSchemaService() {
+  function setupBotSchemaService(): (force?: boolean) => BotSyncResult | null {
     const knownBots: Set<string> = new Set()
     let debounceTimer: NodeJS.Timeout | null = null
 
@@ -76,21 +91,32 @@ export function apply(ctx: Context, config: Config): void {
       debounceTimer = setTimeout(() => scanFromMBC(), 200)
     }
 
-    const scanFromMBC = () => {
+    /**
+     * 扫描 multi-bot-controller 的 bot 列表
+     * @param force 是否强制刷新 Schema（即使列表无变化）
+     * @returns 扫描结果，服务不可用或扫描失败时返回 null
+     */
+    const scanFromMBC = (force = false): BotSyncResult | null => {
       try {
         const mbcService = ctx['multi-bot-controller']
         if (!mbcService) {
           logger.warn('multi-bot-controller 服务不可用')
-          return
+          return null
         }
 
         const bots = mbcService.getBots()
         const enabledBots = bots.filter((b: any) => b.enabled)
-        const botIds = enabledBots.map((b: any) => `${b.platform}:${b.selfId}`).sort()
+        const botIds: string[] = enabledBots.map((b: any) => `${b.platform}:${b.selfId}`).sort()
 
         const currentSet = new Set(botIds)
-        if (setsEqual(knownBots, currentSet)) {
-          return
+        const result: BotSyncResult = {
+          botIds,
+          added: botIds.filter(id => !knownBots.has(id)),
+          removed: [...knownBots].filter(id => !currentSet.has(id)),
+        }
+
+        if (!force && setsEqual(knownBots, currentSet)) {
+          return result
         }
 
         // 更新 knownBots
@@ -98,8 +124,10 @@ export function apply(ctx: Context, config: Config): void {
         botIds.forEach((id: string) => knownBots.add(id))
         updateBotIdOptions(ctx, botIds)
         logger.info(`Bot 列表已更新，共 ${botIds.length} 个可用`)
+        return result
       } catch (error) {
         logger.warn('从 multi-bot-controller 获取 Bot 列表失败:', error)
+        return null
       }
     }
 
@@ -120,10 +148,15 @@ export function apply(ctx: Context, config: Config): void {
     ctx.on('bot-added', () => scheduleScan())
     ctx.on('bot-removed', () => scheduleScan())
     ctx.on('ready', () => scheduleScan())
+
+    return scanFromMBC
   }
 
   // 启动 Schema 服务
-  setupBotSchemaService()
+  const scanBotsFromMBC = setupBotSchemaService()
+
+  // 人设配置持久化存储（charon_bot_persona 表）
+  const personaStore = new PersonaStore(ctx)
 
   // 初始化 BotManager，使用配置中的 bots 列表
   const botManager = new BotManager(
@@ -132,9 +165,23 @@ export function apply(ctx: Context, config: Config): void {
     {
       debug: config.debug,
       verboseLogging: config.verboseLogging,
+      fallbackThreshold: config.fallbackThreshold,
+      fallbackCooldown: config.fallbackCooldown,
+      modelPrices: config.modelPrices,
+      store: personaStore,
+      syncConfig: (bots) => {
+        // 写回 Koishi 配置文件，forced = false 表示不触发插件重载
+        ctx.scope.update({ ...ctx.scope.config, bots }, false)
+      },
+      // 配置变更后立即同步已有的 room、模板房间和 character 插件
+      reconcile: (previous, current) => reconciler.reconcile(previous, current),
     }
   )
 
+  const reconciler = new PersonaReconciler(ctx, botManager, {
+    debug: config.debug,
+  })
+
   // 预设加载防抖：避免短时间内重复加载
   let presetLoadTimer: NodeJS.Timeout | null = null
 
@@ -164,23 +211,8 @@ export function apply(ctx: Context, config: Config): void {
       return false
     }
 
-    for (const botConfig of botManager.getConfig()) {
-      const botId = botConfig.botId
-      const preset = botConfig.preset
-      const model = botConfig.model
-
-      if (preset || model) {
-        // 统一使用 BotManager.parsePresetName() 解析预设名称
-        const { name: cleanPreset } = botManager.parsePresetName(preset || '')
-
-        ctx.chatluna_character.botConfig.setBotConfig(botId, {
-          preset: cleanPreset || undefined,
-          model
-        })
-        logger.info(
-          `[Charon] 注册 Bot ${botId} 配置: preset="${cleanPreset}", model="${model}"`
-        )
-      }
+    for (const botConfig of botManager.getResolvedConfigs()) {
+      botManager.registerCharacterConfig(botConfig)
     }
     return true
   }
@@ -235,6 +267,18 @@ export function apply(ctx: Context, config: Config): void {
   // 立即开始尝试注册配置（在 character 插件初始化时）
   setupCharacterPluginListener()
 
+  // 加载数据库中持久化的配置，合并后重新注册到 character 插件
+  botManager.loadPersistedConfig()
+    .then(() => tryRegisterBotConfigs())
+    .catch((error) => logger.warn('加载持久化的 Bot 配置失败:', error))
+
+  // 在 Koishi 配置页修改 bots 时同步到数据库，无需重载插件
+  ctx.accept(['bots'], (newConfig: Config) => {
+    botManager.replaceConfig(newConfig.bots || [])
+      .then(() => tryRegisterBotConfigs())
+      .catch((error) => logger.warn('同步 Bot 配置到数据库失败:', error))
+  })
+
   // ChatLuna 就绪时加载预设（模型列表通过 watch 自动响应式更新）
   ctx.on('chatluna/ready', async () => {
     schedulePresetLoad()
@@ -291,6 +335,30 @@ export function apply(ctx: Context, config: Config): void {
     verboseLogging: config.verboseLogging,
   })
 
+  // 访问控制：按 bot 的允许/拒绝列表过滤群组、频道和用户
+  chainInterceptor.addGuard(new AccessGuard(ctx, {
+    debug: config.debug,
+  }))
+
+  // 防循环：拦截受管 bot 之间的互相回复（在仲裁之前运行，避免等待仲裁窗口）
+  const loopGuard = new LoopGuard(ctx, botManager, {
+    ...config.loopGuard,
+    debug: config.debug,
+  })
+  chainInterceptor.addGuard(loopGuard)
+
+  // 回复仲裁：多个 bot 在同一群组时只由一个 bot 回复
+  chainInterceptor.addGuard(new ReplyArbiter(ctx, botManager, {
+    rules: config.arbitration,
+    debug: config.debug,
+  }))
+
+  // 频率限制：放在最后，只统计当前 bot 实际会处理的消息
+  const rateLimitGuard = new RateLimitGuard(ctx, {
+    debug: config.debug,
+  })
+  chainInterceptor.addGuard(rateLimitGuard)
+
   // RoomInterceptor: 为每个 Bot 创建独立的 template room
   const roomInterceptor = new RoomInterceptor(ctx, botManager, {
     autoCreateTemplateRooms: true,
@@ -302,22 +370,79 @@ export function apply(ctx: Context, config: Config): void {
     debug: config.debug,
   })
 
+  // FallbackInterceptor: 根据请求结果更新模型健康状态，实现模型回退
+  const fallbackInterceptor = new FallbackInterceptor(ctx, botManager, {
+    debug: config.debug,
+  })
+
+  // UsageInterceptor: 记录每个 bot 的 token 用量，用于统计和每月预算
+  const usageInterceptor = new UsageInterceptor(ctx, botManager, {
+    debug: config.debug,
+  })
+
+  // GenerationInterceptor: 为每个 bot 的会话应用独立的生成参数
+  const generationInterceptor = new GenerationInterceptor(ctx, botManager, {
+    debug: config.debug,
+  })
+
+  // VariablesInterceptor: 为每个 bot 的会话注入预设变量
+  const variablesInterceptor = new VariablesInterceptor(ctx, botManager, {
+    debug: config.debug,
+  })
+
   // 启动拦截器
-  chainInterceptor.start()
+  // chain 中间件需要等旧版本 room 的绑定记录补全（通过 conversationId 前缀 bot_{botId}_ 识别）后再启用，
+  // 否则迁移期间到达的消息找不到绑定，会重复创建 room
+  ctx.on('ready', async () => {
+    try {
+      await botManager.migrateRoomBindings()
+    } catch (error) {
+      logger.warn('补全 room 绑定记录失败:', error)
+    }
+    await chainInterceptor.start()
+  })
   roomInterceptor.start()
   memoryInterceptor.start()
+  fallbackInterceptor.start()
+  usageInterceptor.start()
+  generationInterceptor.start()
+  variablesInterceptor.start()
   logger.info('拦截器初始化完成')
 
-  // 注册控制台扩展
+  // 配置导出和导入
+  const transfer = new PersonaTransfer(ctx, botManager)
+  registerTransferCommands(ctx, transfer)
+
+  // 注册控制台扩展和 HTTP 接口
+  const api = new CharonApi(ctx, botManager, transfer)
+  // 控制台插件是可选依赖，未安装时不影响消息路由
+  ctx.inject(['console'], (ctx) => {
+    registerConsoleExtensions(ctx, botManager, api)
+  })
+
   ctx.on('ready', async () => {
-    const consoleService = ctx.get('console') as any
-    if (consoleService) {
-      registerConsoleExtensions(ctx, botManager, logger, consoleService)
+    if (ctx.server) {
+      registerHttpApi(ctx, api, config.apiToken)
+    } else {
+      logger.debug('server 插件未安装，HTTP 接口不可用')
     }
   })
 
   // 注册调试指令
-  registerDebugCommands(ctx, botManager, logger, tryRegisterBotConfigs)
+  registerDebugCommands(ctx, botManager, logger, tryRegisterBotConfigs, scanBotsFromMBC, loopGuard)
+
+  // 注册人设管理指令
+  registerManagementCommands(ctx, botManager, rateLimitGuard)
+
+  // 注册用户选择人设的指令
+  registerUserCommands(ctx, botManager)
+
+  // 注册圆桌讨论指令
+  const roundtableManager = new RoundtableManager(ctx, botManager, {
+    ...config.roundtable,
+    debug: config.debug,
+  })
+  registerRoundtableCommands(ctx, roundtableManager)
 
   // ========================================
   // 指令拦截：与 character 插件深度融合
@@ -334,8 +459,15 @@ export function apply(ctx: Context, config: Config): void {
     chainInterceptor.stop()
     roomInterceptor.stop()
     memoryInterceptor.stop()
+    fallbackInterceptor.stop()
+    usageInterceptor.stop()
+    generationInterceptor.stop()
+    variablesInterceptor.stop()
     logger.info('所有拦截器已停止')
 
+    // 停止进行中的圆桌讨论
+    roundtableManager.stopAll()
+
     // 清理手动管理的资源
     for (const dispose of manualDisposes) {
       try {
@@ -354,7 +486,8 @@ export function apply(ctx: Context, config: Config): void {
 /**
  * 注册控制台扩展
  */
-function registerConsoleExtensions(ctx: Context, botManager: BotManager, logger: any, consoleService: any): void {
+function registerConsoleExtensions(ctx: Context, botManager: BotManager, api: CharonApi): void {
+  const consoleService = ctx.console as any
   const { assets } = consoleService
 
   // 添加脚本和样式
@@ -373,23 +506,13 @@ function registerConsoleExtensions(ctx: Context, botManager: BotManager, logger:
     prod: __dirname + '/dist',
   })
 
-  // 注册 HTTP 处理器供前端调用（需要 server 插件）
-  if (ctx.server) {
-    ctx.server.get('/multi-bot-controller-chatluna-charon/data', async () => {
-      return {
-        bots: botManager.getBotsConfig(),
-        presets: botManager.getPresets(),
-      }
-    })
+  // 向控制台页面推送配置、状态、预设和模型列表
+  // data-service 依赖 @koishijs/console，在这里按需加载
+  const { CharonProvider } = require('./data-service') as typeof import('./data-service')
+  ctx.plugin(CharonProvider, botManager)
 
-    ctx.server.post('/multi-bot-controller-chatluna-charon/bot-update', async ({ data }) => {
-      const botConfig: BotPersonaConfig = data
-      botManager.updateBotConfig(botConfig)
-      return { success: true }
-    })
-  } else {
-    logger.warn('server 插件未安装，控制台 UI 将无法使用')
-  }
+  // 控制台页面通过 websocket 调用，使用控制台自身的权限校验
+  registerConsoleApi(ctx, api)
 }
 
 /**
@@ -399,7 +522,9 @@ function registerDebugCommands(
   ctx: Context,
   botManager: BotManager,
   logger: any,
-  registerBotConfigsToCharacter: () => void
+  registerBotConfigsToCharacter: () => void,
+  scanBotsFromMBC: (force?: boolean) => BotSyncResult | null,
+  loopGuard: LoopGuard
 ): void {
   // 查看所有 bot 状态
   ctx.command('charon.status', '查看所有 bot 的人设配置状态', { authority: 4 })
@@ -415,9 +540,28 @@ function registerDebugCommands(
       for (const bot of bots) {
         output += `## ${bot.botId}\n`
         output += `- 状态: ${bot.initialized ? '已初始化' : '未初始化'}\n`
+        if (bot.activeSchedule) {
+          output += `- 当前时间段: ${bot.activeSchedule}\n`
+        }
         output += `- 当前预设: ${bot.currentPreset || '未设置'}\n`
         output += `- 当前模型: ${bot.currentModel || '未设置'}\n`
+        if (bot.effectiveModel && bot.effectiveModel !== bot.currentModel) {
+          const reason = bot.overBudget ? '超出每月预算，已降级' : '主模型冷却中，已回退'
+          output += `- 生效模型: ${bot.effectiveModel}（${reason}）\n`
+        }
+        for (const { model, remaining } of botManager.modelHealth.getCooldowns(bot.botId)) {
+          output += `- 冷却中: ${model}（剩余 ${remaining} 秒）\n`
+        }
+        const generation = Object.entries(botManager.getBotConfig(bot.botId)?.generation || {})
+          .filter(([, value]) => value !== undefined && value !== null)
+        if (generation.length > 0) {
+          output += `- 生成参数: ${generation.map(([key, value]) => `${key}=${value}`).join(', ')}\n`
+        }
         output += `- Template Room: ${bot.templateRoomId || '未创建'}\n`
+        const loopStats = loopGuard.getStats(bot.botId)
+        if (loopStats.detected > 0) {
+          output += `- 防循环: 收到 bot 消息 ${loopStats.detected} 条，放行 ${loopStats.allowed}，拦截 ${loopStats.blocked}\n`
+        }
         output += '\n'
       }
 
@@ -433,6 +577,88 @@ function registerDebugCommands(
       return '预设列表已重新加载'
     })
 
+  // 查看可用的预设列表
+  ctx.command('charon.presets', '查看可用的预设列表', { authority: 4 })
+    .action(() => {
+      const presets = botManager.getPresets()
+
+      if (presets.length === 0) {
+        return '当前没有可用的预设，请先在 ChatLuna 中配置预设'
+      }
+
+      const sourceLabels: Record<PresetSource, string> = {
+        [PresetSource.ChatLuna]: 'ChatLuna',
+        [PresetSource.Character]: 'character',
+      }
+
+      let output = `可用预设（共 ${presets.length} 个）：\n`
+
+      for (const source of Object.values(PresetSource)) {
+        const group = presets.filter(p => p.source === source)
+        if (group.length === 0) continue
+
+        output += `\n## ${sourceLabels[source]}（${group.length} 个）\n`
+        for (const preset of group) {
+          const users = botManager.getBotsUsing('preset', preset.name)
+          output += `- ${preset.name}`
+          output += users.length > 0 ? `（使用中: ${users.join(', ')}）\n` : '\n'
+        }
+      }
+
+      return output.trim()
+    })
+
+  // 查看可用的模型列表
+  ctx.command('charon.models', '查看可用的模型列表', { authority: 4 })
+    .action(() => {
+      const models = botManager.getModels()
+
+      if (models.length === 0) {
+        return '当前没有可用的模型，请先在 ChatLuna 中配置模型平台'
+      }
+
+      let output = `可用模型（共 ${models.length} 个）：\n`
+
+      const platforms = [...new Set(models.map(m => m.platform || '未知平台'))]
+      for (const platform of platforms) {
+        const group = models.filter(m => (m.platform || '未知平台') === platform)
+
+        output += `\n## ${platform}（${group.length} 个）\n`
+        for (const model of group) {
+          const users = botManager.getBotsUsing('model', model.name)
+          output += `- ${model.name}`
+          output += users.length > 0 ? `（使用中: ${users.join(', ')}）\n` : '\n'
+        }
+      }
+
+      return output.trim()
+    })
+
+  // 从 multi-bot-controller 重新同步 bot 列表
+  ctx.command('charon.sync', '从 multi-bot-controller 同步 bot 列表', { authority: 4 })
+    .action(() => {
+      const result = scanBotsFromMBC(true)
+      if (!result) {
+        return '同步失败：multi-bot-controller 服务不可用'
+      }
+
+      const available = new Set(result.botIds)
+      const missing = botManager.getConfig()
+        .map(b => b.botId)
+        .filter(botId => !botManager.isBotPattern(botId) && !available.has(botId))
+
+      let output = `已从 multi-bot-controller 同步，共 ${result.botIds.length} 个可用 bot\n`
+      output += `- 新增: ${result.added.length > 0 ? result.added.join(', ') : '无'}\n`
+      output += `- 移除: ${result.removed.length > 0 ? result.removed.join(', ') : '无'}\n`
+
+      if (missing.length > 0) {
+        output += `\n以下 bot 已在 Charon 中配置，但在 multi-bot-controller 中不存在或未启用：\n`
+        output += missing.map(botId => `- ${botId}`).join('\n')
+      }
+
+      return output.trim()
+    })
+
   // 测试 Bot 配置是否正确注册到 character
   ctx.command('charon.test', '测试 character 插件的 Bot 配置', { authority: 4 })
     .action(() => {
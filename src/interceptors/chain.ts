@@ -1,7 +1,7 @@
 // src/interceptors/chain.ts
 import { Context } from 'koishi'
 import { BotManager } from '../bot-manager'
-import { BotPersonaConfig } from '../types'
+import { BotPersonaConfig, ChainGuard, ResolvedPersona } from '../types'
 
 /**
  * ChatLuna Chain 中间件运行状态
@@ -28,6 +28,10 @@ export class ChainInterceptor {
   private middlewares: any[] = []
   // 防重复注册标志
   private setupMiddlewareRegistered = false
+  // 正在进行的 room 查找/创建，按 bot、作用域、用户和群组去重
+  private readonly roomCreationLocks: Map<string, Promise<any>> = new Map()
+  // 在 room 解析之前依次运行的守卫
+  private readonly guards: ChainGuard[] = []
 
   constructor(
     private ctx: Context,
@@ -40,6 +44,14 @@ export class ChainInterceptor {
     this.logger = ctx.logger('chatluna-charon:chain')
   }
 
+  /**
+   * 添加守卫
+   * 守卫在 room 解析之前按添加顺序运行，任一守卫拒绝时当前 bot 不处理此消息
+   */
+  addGuard(guard: ChainGuard): void {
+    this.guards.push(guard)
+  }
+
   /**
    * 启动拦截器
    */
@@ -131,16 +143,28 @@ export class ChainInterceptor {
           return ChainMiddlewareRunStatus.CONTINUE
         }
 
+        // 依次运行守卫，任一守卫拒绝时阻止 ChatLuna chain 继续执行
+        if (!(await this.runGuards(session, botConfig))) {
+          return ChainMiddlewareRunStatus.STOP
+        }
+
+        // 按群组/频道/私聊解析最终使用的人设，用户通过 charon.persona 的选择优先
+        const persona = this.botManager.applyUserChoice(
+          botConfig,
+          this.botManager.resolvePersona(botConfig, session),
+          await this.botManager.userChoices.get(botId, session.userId)
+        )
+
         // 如果既没有配置 preset 也没有配置 model，跳过拦截
         // 让 ChatLuna 使用默认行为处理
-        if (!botConfig.preset && !botConfig.model) {
+        if (!persona.preset && !persona.model) {
           return ChainMiddlewareRunStatus.CONTINUE
         }
 
         // 解析预设名称（处理带来源前缀的情况）
         // 只有当 preset 不为空时才解析，避免空字符串被误解析为有效 preset
-        const { name: presetName, source } = botConfig.preset
-          ? this.botManager.parsePresetName(botConfig.preset)
+        const { name: presetName, source } = persona.preset
+          ? this.botManager.parsePresetName(persona.preset)
           : { name: '', source: undefined }
 
         // 对于 character 预设，不继续执行 ChatLuna 的 chain
@@ -155,12 +179,10 @@ export class ChainInterceptor {
           return ChainMiddlewareRunStatus.STOP
         }
 
-        // 将 bot 配置保存到 context，供后置中间件使用
+        // 将解析后的人设保存到 context，供后置中间件使用
         context.options.charonBotConfig = {
-          botId,
+          ...persona,
           preset: presetName,
-          model: botConfig.model,
-          chatMode: botConfig.chatMode || 'chat',
         }
 
         // 检查是否已经指定了 room（通过命令参数）
@@ -181,14 +203,14 @@ export class ChainInterceptor {
         }
 
         // 尝试找到或创建 bot 特定的 room
-        const botRoom = await this.getOrCreateBotSpecificRoom(session, botId, botConfig)
+        const botRoom = await this.getOrCreateBotSpecificRoom(session, persona)
 
         if (botRoom) {
           // 将 room 设置到 context 中
           context.options.room = botRoom
           if (this.config.verboseLogging) {
             this.logger.info(
-              `[Charon] ${botId} | 预设:${presetName} | 模型:${botConfig.model} | Room:${botRoom.roomName} (${botRoom.roomId})`
+              `[Charon] ${botId} | 作用域:${persona.scope} | 预设:${presetName} | 模型:${persona.model} | Room:${botRoom.roomName} (${botRoom.roomId})`
             )
           }
         } else {
@@ -217,14 +239,21 @@ export class ChainInterceptor {
         const room = context.options.room
         const botId = charonBotConfig.botId
 
-        // 检查 room 是否属于当前 bot（通过 conversationId 判断，比 roomName 更可靠）
-        // conversationId 格式为 bot_{botId}_{uuid}，由 Charon 完全控制
-        const isRoomForBot = room.conversationId?.startsWith(`bot_${botId}_`)
+        // 检查 room 是否属于当前 bot 和作用域（通过 charon_room_binding 表判断）
+        // 同时检查作用域，避免不同作用域的人设共用同一个 room
+        const binding = await this.botManager.roomBindings.get(room.roomId)
+        const isRoomForBot = binding?.botId === botId &&
+          binding.scope === charonBotConfig.scope
         if (!isRoomForBot) {
           // 需要创建或切换到正确的 bot room
           const botConfig = this.botManager.getBotConfig(botId)
           if (botConfig) {
-            const correctRoom = await this.getOrCreateBotSpecificRoom(session, botId, botConfig)
+            const persona = this.botManager.applyUserChoice(
+              botConfig,
+              this.botManager.resolvePersona(botConfig, session),
+              await this.botManager.userChoices.get(botId, session.userId)
+            )
+            const correctRoom = await this.getOrCreateBotSpecificRoom(session, persona)
             if (correctRoom) {
               context.options.room = correctRoom
               if (this.config.verboseLogging) {
@@ -250,17 +279,24 @@ export class ChainInterceptor {
         let needsFix = false
         const fixedRoom = { ...currentRoom }
 
-        // 只有当 Charon 配置了具体预设时才覆盖 currentRoom.preset
+        // 控制台中为 room 单独指定的预设和模型优先于 bot 配置
+        const currentBinding = currentRoom.roomId === room.roomId
+          ? binding
+          : await this.botManager.roomBindings.get(currentRoom.roomId)
+        const preset = currentBinding?.presetOverride || charonBotConfig.preset
+        const model = currentBinding?.modelOverride || charonBotConfig.model
+
+        // 只有当配置了具体预设时才覆盖 currentRoom.preset
         // 空字符串表示使用 ChatLuna 默认行为，不应覆盖
-        if (charonBotConfig.preset && currentRoom.preset !== charonBotConfig.preset) {
-          fixedRoom.preset = charonBotConfig.preset
+        if (preset && currentRoom.preset !== preset) {
+          fixedRoom.preset = preset
           needsFix = true
         }
 
-        // 只有当 Charon 配置了具体模型时才覆盖 currentRoom.model
+        // 只有当配置了具体模型时才覆盖 currentRoom.model
         // 空字符串表示使用 ChatLuna 默认行为，不应覆盖
-        if (charonBotConfig.model && currentRoom.model !== charonBotConfig.model) {
-          fixedRoom.model = charonBotConfig.model
+        if (model && currentRoom.model !== model) {
+          fixedRoom.model = model
           needsFix = true
         }
 
@@ -279,6 +315,10 @@ export class ChainInterceptor {
           }
         }
 
+        // 记录本次请求使用的模型，请求结束后用于更新模型健康状态
+        const finalRoom = context.options.room
+        this.botManager.modelHealth.track(finalRoom.conversationId, botId, finalRoom.model)
+
         return ChainMiddlewareRunStatus.CONTINUE
       }
     )
@@ -296,6 +336,33 @@ export class ChainInterceptor {
     this.setupMiddlewareRegistered = true
   }
 
+  /**
+   * 运行所有守卫
+   * @returns 是否允许当前 bot 继续处理此消息
+   */
+  private async runGuards(session: any, botConfig: BotPersonaConfig): Promise<boolean> {
+    for (const guard of this.guards) {
+      let result
+      try {
+        result = await guard.check(session, botConfig)
+      } catch (error) {
+        this.logger.warn(`[Charon] 守卫 ${guard.name} 执行出错，已放行:`, error)
+        continue
+      }
+
+      if (result.allow) continue
+
+      if (this.config.verboseLogging) {
+        this.logger.info(`[Charon] ${botConfig.botId} 的消息被守卫 ${guard.name} 拦截`)
+      }
+      if (result.reply) {
+        await session.send(result.reply)
+      }
+      return false
+    }
+    return true
+  }
+
   /**
    * 查找 bot 特定的 room
    */
@@ -305,15 +372,20 @@ export class ChainInterceptor {
     botId: string
   ): Promise<any> {
     // 注意：ChatLuna 的 chathub_room 表没有 botId 字段
-    // 我们通过检查 roomName 是否包含 botId 来验证
+    // 我们通过 charon_room_binding 表验证 room 所属的 bot
     const rooms = await this.ctx.database.get('chathub_room', {
       roomName,
     })
 
     if (rooms.length > 0) {
-      const room = rooms[0]
-      // 验证 room 是否属于指定的 bot
-      if (room.roomName?.includes(`(${botId})`)) {
+      const bindings = await this.botManager.roomBindings.list(
+        botId,
+        rooms.map((r) => r.roomId)
+      )
+      // 同名 room 可能有多个，返回属于指定 bot 的那个（任意作用域）
+      const boundIds = new Set(bindings.map((b) => b.roomId))
+      const room = rooms.find((r) => boundIds.has(r.roomId))
+      if (room) {
         return room
       }
     }
@@ -323,12 +395,35 @@ export class ChainInterceptor {
 
   /**
    * 获取或创建 bot 特定的 room
+   * 同一用户在同一场景下并发的消息共享同一次查找/创建，避免重复创建 room
    */
   private async getOrCreateBotSpecificRoom(
     session: any,
-    botId: string,
-    botConfig: BotPersonaConfig
+    persona: ResolvedPersona
+  ): Promise<any> {
+    const key = [persona.botId, persona.scope, session.userId, session.guildId || 'private'].join('|')
+
+    const pending = this.roomCreationLocks.get(key)
+    if (pending) {
+      this.debug(`等待进行中的 room 创建: ${key}`)
+      return await pending
+    }
+
+    const task = this.findOrCreateBotSpecificRoom(session, persona)
+      .finally(() => this.roomCreationLocks.delete(key))
+    this.roomCreationLocks.set(key, task)
+    return await task
+  }
+
+  /**
+   * 查找 bot 特定的 room，不存在时创建
+   * 每个作用域的人设使用独立的 room，避免对话历史互相串扰
+   */
+  private async findOrCreateBotSpecificRoom(
+    session: any,
+    persona: ResolvedPersona
   ): Promise<any> {
+    const botId = persona.botId
     const userId = session.userId
     const guildId = session.guildId
     const isDirect = !guildId
@@ -341,13 +436,14 @@ export class ChainInterceptor {
     if (userRooms.length > 0) {
       const roomIds = userRooms.map((r) => r.roomId)
 
-      // 获取这些 room 的详细信息
-      // 注意：ChatLuna 的 chathub_room 表没有 botId 字段，我们需要过滤 roomName
-      const allRooms = await this.ctx.database.get('chathub_room', {
-        roomId: { $in: roomIds },
-      })
-      // 过滤出属于当前 bot 的 room（通过 roomName 判断）
-      const rooms = allRooms.filter((r: any) => r.roomName?.includes(`(${botId})`))
+      // 通过 charon_room_binding 表筛选出属于当前 bot 和作用域的 room
+      // 注意：ChatLuna 的 chathub_room 表没有 botId 字段
+      const bindings = await this.botManager.roomBindings.list(botId, roomIds, persona.scope)
+      const rooms = bindings.length > 0
+        ? await this.ctx.database.get('chathub_room', {
+          roomId: { $in: bindings.map((b) => b.roomId) },
+        })
+        : []
 
       // 优先选择符合当前场景的 room
       let selectedRoom: any
@@ -382,8 +478,8 @@ export class ChainInterceptor {
     }
 
     // 2. 如果没有找到，创建新的 bot 特定 room
-    this.debug(`未找到 Bot ${botId} 的现有 room，准备创建新 room`)
-    return await this.createBotSpecificRoom(session, botId, botConfig)
+    this.debug(`未找到 Bot ${botId} 作用域 ${persona.scope} 的现有 room，准备创建新 room`)
+    return await this.createBotSpecificRoom(session, persona)
   }
 
   /**
@@ -391,33 +487,35 @@ export class ChainInterceptor {
    */
   private async createBotSpecificRoom(
     session: any,
-    botId: string,
-    botConfig: BotPersonaConfig
+    persona: ResolvedPersona
   ): Promise<any> {
+    const botId = persona.botId
+    const roomTag = this.botManager.getRoomTag(botId, persona.scope)
     const userId = session.userId
     const guildId = session.guildId
     const isDirect = !guildId
     const username = session.username || session.userId
 
     // 解析预设名称
-    const { name: presetName } = this.botManager.parsePresetName(botConfig.preset)
+    const { name: presetName } = this.botManager.parsePresetName(persona.preset)
 
     // 构建 roomName
     const roomName = isDirect
-      ? `${username} (${botId})`
-      : `${session.event?.guild?.name || username} (${botId})`
+      ? `${username} ${roomTag}`
+      : `${session.event?.guild?.name || username} ${roomTag}`
 
     // 使用 BotManager 的通用方法创建 room
-    this.logger.info(`[Charon] 创建 room 配置: botId=${botId}, preset="${botConfig.preset}", model="${botConfig.model}"`)
+    this.logger.info(`[Charon] 创建 room 配置: botId=${botId}, scope=${persona.scope}, preset="${persona.preset}", model="${persona.model}"`)
     const newRoom = await this.botManager.createRoom({
       botId,
+      scope: persona.scope,
       roomName,
       roomMasterId: userId,
       guildId,
       visibility: isDirect ? 'private' : 'template_clone',
-      preset: botConfig.preset,
-      model: botConfig.model,
-      chatMode: botConfig.chatMode || 'chat',
+      preset: persona.preset,
+      model: persona.model,
+      chatMode: persona.chatMode,
     })
     this.logger.info(`[Charon] room 已创建: roomId=${newRoom.roomId}, room.model="${newRoom.model}", room.preset="${newRoom.preset}"`)
 
@@ -541,6 +639,7 @@ export class ChainInterceptor {
 
     this.middlewareDisposes = []
     this.middlewares = []
+    this.roomCreationLocks.clear()
     this.setupMiddlewareRegistered = false  // 重置防重复注册标志
 
     this.logger.info('[Charon] ChainInterceptor 已停止')
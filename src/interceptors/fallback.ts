@@ -0,0 +1,66 @@
+// src/interceptors/fallback.ts
+import { Context } from 'koishi'
+import { BotManager } from '../bot-manager'
+
+/**
+ * 模型回退拦截器
+ * 监听 ChatLuna 的请求结果，更新模型健康状态，
+ * 由 BotManager.resolvePersona 在主模型冷却期间切换到回退模型
+ *
+ * 失败的请求不会重试：ChatLuna 在 chatluna/after-chat-error 触发后仍会把错误返回给用户，
+ * 回退模型只对之后的消息生效
+ */
+export class FallbackInterceptor {
+  private readonly logger: ReturnType<Context['logger']>
+  private hooks: Array<() => void> = []
+
+  constructor(
+    private ctx: Context,
+    private botManager: BotManager,
+    private config: {
+      debug: boolean
+    }
+  ) {
+    this.logger = ctx.logger('chatluna-charon:fallback')
+  }
+
+  /**
+   * 启动拦截器
+   */
+  async start(): Promise<void> {
+    this.debug('启动模型回退拦截器...')
+
+    const successDispose = this.ctx.on('chatluna/after-chat', (conversationId) => {
+      this.botManager.modelHealth.recordSuccess(conversationId)
+    })
+    this.hooks.push(successDispose)
+
+    // ChatLuna 在获取模型或请求模型失败时触发；after-chat 的其他监听器出错时也会触发，
+    // 但此时已经记录过成功，recordFailure 找不到进行中的请求会直接忽略
+    const errorDispose = this.ctx.on('chatluna/after-chat-error', (error, conversationId) => {
+      this.debug(`会话 ${conversationId} 请求失败`)
+      this.botManager.modelHealth.recordFailure(conversationId, error)
+    })
+    this.hooks.push(errorDispose)
+  }
+
+  /**
+   * 停止拦截器
+   */
+  stop(): void {
+    for (const dispose of this.hooks) {
+      dispose()
+    }
+    this.hooks = []
+    this.botManager.modelHealth.clear()
+  }
+
+  /**
+   * 输出调试日志
+   */
+  private debug(...args: unknown[]): void {
+    if (this.config.debug) {
+      this.logger.debug(args as any)
+    }
+  }
+}
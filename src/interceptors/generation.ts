@@ -0,0 +1,157 @@
+// src/interceptors/generation.ts
+import { Context } from 'koishi'
+import { BotManager } from '../bot-manager'
+import { GenerationParams } from '../types'
+import { GENERATION_PARAM_RANGES, validateGenerationParams } from '../utils'
+
+/** 会话的 chain 与其模型的绑定 */
+interface ModelBinding {
+  /** 持有模型的对象：chat 模式为 ChatLunaLLMChain，plugin 模式为 ChatLunaPluginChain */
+  holder: { llm: any }
+  /** ChatLuna 的模型实例（同一模型的所有会话共享） */
+  model: any
+  /** 替换到 holder 上的模型代理 */
+  view: any
+  /** 本次请求使用的生成参数 */
+  params: GenerationParams
+}
+
+/**
+ * 生成参数拦截器
+ * room 只保存预设和模型，使用同一模型的 bot 共享模型平台的同一个模型实例。
+ * 此拦截器在 chatluna/before-chat 中把该 bot 会话的 chain 所使用的模型替换为代理，
+ * 代理在计算调用参数（invocationParams）时合并 bot 配置的生成参数；
+ * 模型实例本身不会被修改，其他 bot 的请求不受影响
+ *
+ * 注意：plugin 模式的 agent 在第一次请求时固定使用的模型，
+ * Charon 启动前已经对话过的 plugin 模式会话要在 chain 重建（如切换模型）后生效
+ */
+export class GenerationInterceptor {
+  private readonly logger: ReturnType<Context['logger']>
+  private hooks: Array<() => void> = []
+  /** conversationId -> 模型绑定 */
+  private readonly bindings: Map<string, ModelBinding> = new Map()
+  /** 拦截器停止后，仍被 chain 持有的代理不再合并参数 */
+  private active = false
+
+  constructor(
+    private ctx: Context,
+    private botManager: BotManager,
+    private config: {
+      debug: boolean
+    }
+  ) {
+    this.logger = ctx.logger('chatluna-charon:generation')
+  }
+
+  /**
+   * 启动拦截器
+   */
+  async start(): Promise<void> {
+    this.debug('启动生成参数拦截器...')
+    this.active = true
+
+    const dispose = this.ctx.on('chatluna/before-chat', async (conversationId, _message, _promptVariables, chatInterface) => {
+      const botId = this.botManager.parseConversationId(conversationId)
+      if (!botId) return
+
+      const botConfig = this.botManager.getBotConfig(botId)
+      if (!botConfig) return
+
+      try {
+        // before-chat 触发前 ChatLuna 已创建 chain，这里取到的是缓存的实例
+        const wrapper = await chatInterface.getChatLunaLLMChainWrapper()
+        this.bind(conversationId, botId, wrapper, botConfig.generation)
+      } catch (error) {
+        this.logger.warn(`为 Bot ${botId} 的会话应用生成参数失败:`, error)
+      }
+    })
+    this.hooks.push(dispose)
+  }
+
+  /**
+   * 记录本次请求的生成参数，会话的 chain 还没有使用代理时替换模型
+   */
+  private bind(conversationId: string, botId: string, wrapper: any, params: GenerationParams | undefined): void {
+    const errors = validateGenerationParams(params)
+    if (errors.length > 0) {
+      this.logger.warn(`Bot ${botId} 的生成参数无效，已忽略: ${errors.join('；')}`)
+      params = undefined
+    }
+
+    // chat 模式的模型在 wrapper.chain.llm，plugin 模式在 wrapper.llm
+    const holder = wrapper?.chain?.llm ? wrapper.chain : wrapper?.llm ? wrapper : undefined
+    if (!holder) {
+      this.debug(`Bot ${botId} 的会话中未找到模型实例，生成参数未生效`)
+      return
+    }
+
+    let binding = this.bindings.get(conversationId)
+    if (!binding || binding.holder !== holder || holder.llm !== binding.view) {
+      // ChatLuna 重建了 chain（如切换模型）时重新创建代理
+      const model = holder.llm
+      binding = { holder, model, view: undefined, params: {} }
+      binding.view = this.createView(model, binding)
+      holder.llm = binding.view
+      this.bindings.set(conversationId, binding)
+    }
+
+    binding.params = this.pick(params)
+    this.debug(`Bot ${botId} 的生成参数:`, Object.keys(binding.params).length > 0 ? binding.params : '默认')
+  }
+
+  /**
+   * 创建模型的代理，调用参数中合并绑定记录的生成参数，其他属性和方法直接使用原模型
+   */
+  private createView(model: any, binding: ModelBinding): any {
+    return new Proxy(model, {
+      get: (target, key, receiver) => {
+        const value = Reflect.get(target, key, receiver)
+        if (key !== 'invocationParams' || typeof value !== 'function') {
+          return value
+        }
+        return (options?: any) => value.call(receiver, this.active ? { ...options, ...binding.params } : options)
+      },
+    })
+  }
+
+  /**
+   * 只保留已填写的生成参数字段
+   */
+  private pick(source: GenerationParams | undefined): GenerationParams {
+    const result: GenerationParams = {}
+    for (const key of Object.keys(GENERATION_PARAM_RANGES) as Array<keyof GenerationParams>) {
+      if (source?.[key] !== undefined && source[key] !== null) {
+        result[key] = source[key]
+      }
+    }
+    return result
+  }
+
+  /**
+   * 停止拦截器，把 chain 的模型恢复为原模型
+   */
+  stop(): void {
+    for (const dispose of this.hooks) {
+      dispose()
+    }
+    this.hooks = []
+
+    this.active = false
+    for (const { holder, model, view } of this.bindings.values()) {
+      if (holder.llm === view) {
+        holder.llm = model
+      }
+    }
+    this.bindings.clear()
+  }
+
+  /**
+   * 输出调试日志
+   */
+  private debug(...args: unknown[]): void {
+    if (this.config.debug) {
+      this.logger.debug(args as any)
+    }
+  }
+}
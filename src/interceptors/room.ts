@@ -1,6 +1,6 @@
 // src/interceptors/room.ts
 import { Context } from 'koishi'
-import { BotManager } from '../bot-manager'
+import { BotManager, TEMPLATE_ROOM_SCOPE } from '../bot-manager'
 import { BotPersonaConfig } from '../types'
 
 /**
@@ -119,15 +119,17 @@ export class RoomInterceptor {
     this.debug(`正在为 Bot ${botId} 创建模板房间`)
 
     try {
-      // 检查是否已存在 template room
-      const existingRooms = await this.ctx.database.get('chathub_room', {
-        roomName: `模板房间_${botId}`,
-      })
+      // 检查是否已存在 template room（通过 charon_room_binding 表查询）
+      const existingBindings = await this.botManager.roomBindings.list(
+        botId,
+        undefined,
+        TEMPLATE_ROOM_SCOPE
+      )
 
-      if (existingRooms.length > 0) {
+      if (existingBindings.length > 0) {
         this.debug(`Bot ${botId} 的模板房间已存在，跳过创建`)
         this.botManager.setBotStatus(botId, {
-          templateRoomId: existingRooms[0].roomId,
+          templateRoomId: existingBindings[0].roomId,
         })
         return
       }
@@ -145,6 +147,7 @@ export class RoomInterceptor {
       // 使用 BotManager 的通用方法创建 room
       const newRoom = await this.botManager.createRoom({
         botId,
+        scope: TEMPLATE_ROOM_SCOPE,
         roomName: `模板房间_${botId}`,
         roomMasterId: selfId,
         visibility: 'template_clone',
@@ -0,0 +1,126 @@
+// src/interceptors/usage.ts
+import { Context } from 'koishi'
+import { BotManager } from '../bot-manager'
+
+/** 按字符数估算 token 时每个 token 对应的字符数 */
+const CHARS_PER_TOKEN = 2
+
+/**
+ * 用量统计拦截器
+ * 监听 ChatLuna 的请求结果，记录 bot room 中每次请求的 token 用量；
+ * ChatLuna 未返回用量时按字符数估算
+ */
+export class UsageInterceptor {
+  private readonly logger: ReturnType<Context['logger']>
+  private hooks: Array<() => void> = []
+
+  constructor(
+    private ctx: Context,
+    private botManager: BotManager,
+    private config: {
+      debug: boolean
+    }
+  ) {
+    this.logger = ctx.logger('chatluna-charon:usage')
+  }
+
+  /**
+   * 启动拦截器
+   */
+  async start(): Promise<void> {
+    this.debug('启动用量统计拦截器...')
+
+    const dispose = this.ctx.on('chatluna/after-chat', (conversationId, sourceMessage, responseMessage, _promptVariables, _chatInterface, session) => {
+      this.record(conversationId, sourceMessage, responseMessage, session)
+        .catch((error) => this.logger.warn('记录用量失败:', error))
+    })
+    this.hooks.push(dispose)
+
+    try {
+      await this.botManager.usage.loadMonthly()
+    } catch (error) {
+      this.logger.warn('加载当月用量失败:', error)
+    }
+  }
+
+  /**
+   * 记录一次请求的用量（仅统计 Charon 管理的 room）
+   */
+  private async record(
+    conversationId: string,
+    sourceMessage: any,
+    responseMessage: any,
+    session: any
+  ): Promise<void> {
+    const botId = this.botManager.parseConversationId(conversationId)
+    if (!botId) return
+
+    const [room] = await this.ctx.database.get('chathub_room', { conversationId }, ['model'])
+    const model = room?.model || ''
+
+    const reported = this.getReportedUsage(responseMessage)
+    const usage = reported ?? {
+      inputTokens: this.estimateTokens(sourceMessage?.content),
+      outputTokens: this.estimateTokens(responseMessage?.content),
+    }
+
+    await this.botManager.usage.record({
+      botId,
+      model,
+      guildId: session?.guildId || '',
+      userId: session?.userId || '',
+      ...usage,
+      estimated: !reported,
+    })
+
+    this.debug(
+      `${botId} 使用 ${model}: 输入 ${usage.inputTokens}，输出 ${usage.outputTokens}` +
+      (reported ? '' : '（估算）')
+    )
+  }
+
+  /**
+   * 读取模型返回的 token 用量
+   * 兼容 LangChain 的 usage_metadata 和 response_metadata.tokenUsage 两种格式
+   */
+  private getReportedUsage(message: any): { inputTokens: number; outputTokens: number } | undefined {
+    const usage = message?.usage_metadata
+    if (usage && (usage.input_tokens || usage.output_tokens)) {
+      return { inputTokens: usage.input_tokens || 0, outputTokens: usage.output_tokens || 0 }
+    }
+
+    const tokenUsage = message?.response_metadata?.tokenUsage
+    if (tokenUsage && (tokenUsage.promptTokens || tokenUsage.completionTokens)) {
+      return { inputTokens: tokenUsage.promptTokens || 0, outputTokens: tokenUsage.completionTokens || 0 }
+    }
+
+    return undefined
+  }
+
+  /**
+   * 按字符数估算 token 数
+   */
+  private estimateTokens(content: unknown): number {
+    const text = typeof content === 'string' ? content : JSON.stringify(content ?? '')
+    return Math.ceil(text.length / CHARS_PER_TOKEN)
+  }
+
+  /**
+   * 停止拦截器
+   */
+  stop(): void {
+    for (const dispose of this.hooks) {
+      dispose()
+    }
+    this.hooks = []
+  }
+
+  /**
+   * 输出调试日志
+   */
+  private debug(...args: unknown[]): void {
+    if (this.config.debug) {
+      this.logger.debug(args as any)
+    }
+  }
+}
@@ -0,0 +1,85 @@
+// src/interceptors/variables.ts
+import { Context } from 'koishi'
+import { BotManager } from '../bot-manager'
+
+/**
+ * 预设变量拦截器
+ * 在 chatluna/before-chat 中为 bot 的会话注入变量，让同一个预设可以服务多个 bot：
+ * - 自动变量：name / bot_name（bot 在平台上的昵称）、bot_id、bot_platform、bot_self_id
+ * - bot 配置的 variables，会覆盖同名的自动变量
+ */
+export class VariablesInterceptor {
+  private readonly logger: ReturnType<Context['logger']>
+  private hooks: Array<() => void> = []
+
+  constructor(
+    private ctx: Context,
+    private botManager: BotManager,
+    private config: {
+      debug: boolean
+    }
+  ) {
+    this.logger = ctx.logger('chatluna-charon:variables')
+  }
+
+  /**
+   * 启动拦截器
+   */
+  async start(): Promise<void> {
+    this.debug('启动预设变量拦截器...')
+
+    const dispose = this.ctx.on('chatluna/before-chat', (conversationId, _message, promptVariables, _chatInterface, session) => {
+      // 只处理 Charon 创建的会话（conversationId 以 bot_{botId}_ 开头）
+      const botId = this.botManager.parseConversationId(conversationId)
+      if (!botId || !promptVariables) return
+
+      const botConfig = this.botManager.getBotConfig(botId)
+      if (!botConfig) return
+
+      const variables = {
+        ...this.getAutoVariables(botId, session),
+        ...botConfig.variables,
+      }
+      Object.assign(promptVariables, variables)
+
+      this.debug(`已为 ${botId} 注入变量:`, Object.keys(variables).join(', '))
+    })
+    this.hooks.push(dispose)
+  }
+
+  /**
+   * 获取 bot 的自动变量
+   */
+  private getAutoVariables(botId: string, session: any): Record<string, string> {
+    const { platform, selfId } = this.botManager.parseBotId(botId)
+    const bot = this.ctx.bots.find(b => b.platform === platform && b.selfId === selfId)
+    const displayName = bot?.user?.name || bot?.user?.nick || session?.bot?.user?.name || selfId
+
+    return {
+      name: displayName,
+      bot_name: displayName,
+      bot_id: botId,
+      bot_platform: platform,
+      bot_self_id: selfId,
+    }
+  }
+
+  /**
+   * 停止拦截器
+   */
+  stop(): void {
+    for (const dispose of this.hooks) {
+      dispose()
+    }
+    this.hooks = []
+  }
+
+  /**
+   * 输出调试日志
+   */
+  private debug(...args: unknown[]): void {
+    if (this.config.debug) {
+      this.logger.debug(args as any)
+    }
+  }
+}
@@ -0,0 +1,129 @@
+// src/model-health.ts
+import { Context } from 'koishi'
+
+/** 单个模型的健康状态 */
+interface ModelHealthState {
+  /** 连续失败次数 */
+  failures: number
+  /** 冷却结束时间（毫秒时间戳），冷却期间不会使用该模型 */
+  cooldownUntil: number
+}
+
+/**
+ * 模型健康状态跟踪器
+ * 记录每个 bot 使用的模型的失败次数，连续失败达到阈值后进入冷却，
+ * 冷却期间改用回退链中的下一个模型，冷却结束后重新尝试主模型
+ */
+export class ModelHealthTracker {
+  private readonly logger: ReturnType<Context['logger']>
+  private readonly states: Map<string, ModelHealthState> = new Map()
+  /** conversationId -> 最近一次请求使用的 bot 和模型 */
+  private readonly inflight: Map<string, { botId: string; model: string }> = new Map()
+
+  constructor(
+    ctx: Context,
+    private config: {
+      /** 连续失败多少次后切换到下一个模型 */
+      threshold: number
+      /** 冷却时间（秒） */
+      cooldown: number
+    }
+  ) {
+    this.logger = ctx.logger('chatluna-charon:fallback')
+  }
+
+  /**
+   * 从回退链中选出当前可用的模型
+   * 所有模型都在冷却中时返回主模型
+   */
+  getEffectiveModel(botId: string, primary: string, fallbacks: string[] = []): string {
+    if (!primary || fallbacks.length === 0) {
+      return primary
+    }
+
+    const now = Date.now()
+    const chain = [primary, ...fallbacks.filter(m => m && m !== primary)]
+    return chain.find(model => !this.isCoolingDown(botId, model, now)) ?? primary
+  }
+
+  /**
+   * 记录 conversation 本次请求使用的模型，用于在请求结束后归因
+   */
+  track(conversationId: string, botId: string, model: string): void {
+    if (!model) return
+    this.inflight.set(conversationId, { botId, model })
+  }
+
+  /**
+   * 记录请求成功
+   */
+  recordSuccess(conversationId: string): void {
+    const entry = this.inflight.get(conversationId)
+    if (!entry) return
+    this.inflight.delete(conversationId)
+
+    const state = this.states.get(this.getKey(entry.botId, entry.model))
+    if (state) {
+      state.failures = 0
+    }
+  }
+
+  /**
+   * 记录请求失败，连续失败达到阈值后使模型进入冷却
+   */
+  recordFailure(conversationId: string, error?: unknown): void {
+    const entry = this.inflight.get(conversationId)
+    if (!entry) return
+    this.inflight.delete(conversationId)
+
+    const key = this.getKey(entry.botId, entry.model)
+    const state = this.states.get(key) || { failures: 0, cooldownUntil: 0 }
+    state.failures++
+
+    if (state.failures >= this.config.threshold) {
+      state.failures = 0
+      state.cooldownUntil = Date.now() + this.config.cooldown * 1000
+      this.logger.warn(
+        `[Charon] Bot ${entry.botId} 的模型 ${entry.model} 连续失败 ${this.config.threshold} 次，` +
+        `冷却 ${this.config.cooldown} 秒:`, error
+      )
+    }
+
+    this.states.set(key, state)
+  }
+
+  /**
+   * 获取 bot 正在冷却中的模型及剩余秒数
+   */
+  getCooldowns(botId: string): Array<{ model: string; remaining: number }> {
+    const now = Date.now()
+    const prefix = `${botId}|`
+    const result: Array<{ model: string; remaining: number }> = []
+
+    for (const [key, state] of this.states) {
+      if (!key.startsWith(prefix) || state.cooldownUntil <= now) continue
+      result.push({
+        model: key.slice(prefix.length),
+        remaining: Math.ceil((state.cooldownUntil - now) / 1000),
+      })
+    }
+    return result
+  }
+
+  /**
+   * 清空所有状态
+   */
+  clear(): void {
+    this.states.clear()
+    this.inflight.clear()
+  }
+
+  private isCoolingDown(botId: string, model: string, now: number): boolean {
+    const state = this.states.get(this.getKey(botId, model))
+    return !!state && state.cooldownUntil > now
+  }
+
+  private getKey(botId: string, model: string): string {
+    return `${botId}|${model}`
+  }
+}
@@ -0,0 +1,66 @@
+// src/persona-store.ts
+import { Context } from 'koishi'
+import { BotPersonaConfig } from './types'
+
+/**
+ * Bot 人设持久化存储
+ * 使用 charon_bot_persona 表保存控制台和指令中修改的配置，重启后不会丢失
+ */
+export class PersonaStore {
+  private readonly logger: ReturnType<Context['logger']>
+
+  constructor(private ctx: Context) {
+    this.logger = ctx.logger('chatluna-charon:store')
+
+    ctx.model.extend('charon_bot_persona', {
+      botId: 'string',
+      config: 'json',
+      updatedTime: 'timestamp',
+    }, {
+      primary: 'botId',
+    })
+  }
+
+  /**
+   * 读取所有已持久化的 Bot 配置
+   */
+  async loadAll(): Promise<BotPersonaConfig[]> {
+    const rows = await this.ctx.database.get('charon_bot_persona', {})
+    return rows
+      .filter(row => row.config)
+      .map(row => ({ ...row.config, botId: row.botId }))
+  }
+
+  /**
+   * 保存单个 Bot 配置
+   */
+  async save(config: BotPersonaConfig): Promise<void> {
+    await this.ctx.database.upsert('charon_bot_persona', [{
+      botId: config.botId,
+      config,
+      updatedTime: new Date(),
+    }])
+  }
+
+  /**
+   * 批量保存 Bot 配置
+   */
+  async saveAll(configs: BotPersonaConfig[]): Promise<void> {
+    if (configs.length === 0) return
+    const now = new Date()
+    await this.ctx.database.upsert('charon_bot_persona', configs.map(config => ({
+      botId: config.botId,
+      config,
+      updatedTime: now,
+    })))
+  }
+
+  /**
+   * 删除 Bot 配置
+   */
+  async remove(botIds: string[]): Promise<void> {
+    if (botIds.length === 0) return
+    await this.ctx.database.remove('charon_bot_persona', { botId: botIds })
+    this.logger.debug(`已删除 ${botIds.length} 个持久化的 Bot 配置`)
+  }
+}
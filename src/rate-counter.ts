@@ -0,0 +1,97 @@
+// src/rate-counter.ts
+import { Context } from 'koishi'
+import { RateCounter } from './types'
+
+/**
+ * 频率限制计数存储
+ * 使用 charon_rate_counter 表保存每个 bot 在当前时间窗口内的消息数，重启后计数不会清零；
+ * 读取结果缓存在内存中，每次计数后写回数据库
+ */
+export class RateCounterStore {
+  /** botId|key -> 计数 */
+  private readonly cache: Map<string, RateCounter> = new Map()
+
+  constructor(private ctx: Context) {
+    ctx.model.extend('charon_rate_counter', {
+      botId: 'string',
+      key: 'string',
+      windowStart: 'timestamp',
+      count: 'unsigned',
+    }, {
+      primary: ['botId', 'key'],
+    })
+  }
+
+  /**
+   * 获取时间窗口内的消息数
+   */
+  async get(botId: string, key: string, windowStart: Date): Promise<number> {
+    const counter = await this.load(botId, key)
+    return counter && counter.windowStart.getTime() === windowStart.getTime() ? counter.count : 0
+  }
+
+  /**
+   * 时间窗口内的消息数加一，进入新的时间窗口时重新计数
+   */
+  async increment(botId: string, key: string, windowStart: Date): Promise<void> {
+    await this.load(botId, key)
+
+    // 加载后从缓存中读取，避免并发的计数互相覆盖
+    const cacheKey = this.getCacheKey(botId, key)
+    const cached = this.cache.get(cacheKey)
+    const counter: RateCounter = cached && cached.windowStart.getTime() === windowStart.getTime()
+      ? { ...cached, count: cached.count + 1 }
+      : { botId, key, windowStart, count: 1 }
+    this.cache.set(cacheKey, counter)
+    await this.ctx.database.upsert('charon_rate_counter', [counter])
+  }
+
+  /**
+   * 获取 bot 的所有计数
+   */
+  async list(botId: string): Promise<RateCounter[]> {
+    const rows = await this.ctx.database.get('charon_rate_counter', { botId })
+    // 缓存中的计数可能比数据库中的新（写入尚未完成）
+    return rows.map(row => this.cache.get(this.getCacheKey(botId, row.key)) ?? row)
+  }
+
+  /**
+   * 从内存缓存中移除已经过期的计数（数据库中的记录由 cleanup 清理）
+   * @param isCurrent 计数是否仍处于当前时间窗口
+   */
+  pruneCache(isCurrent: (counter: RateCounter) => boolean): void {
+    for (const [key, counter] of this.cache) {
+      if (!isCurrent(counter)) {
+        this.cache.delete(key)
+      }
+    }
+  }
+
+  /**
+   * 删除时间窗口早于指定时间的计数
+   */
+  async cleanup(before: Date): Promise<void> {
+    await this.ctx.database.remove('charon_rate_counter', { windowStart: { $lt: before } })
+    for (const [key, counter] of this.cache) {
+      if (counter.windowStart < before) {
+        this.cache.delete(key)
+      }
+    }
+  }
+
+  private async load(botId: string, key: string): Promise<RateCounter | undefined> {
+    const cacheKey = this.getCacheKey(botId, key)
+    const cached = this.cache.get(cacheKey)
+    if (cached) return cached
+
+    const [row] = await this.ctx.database.get('charon_rate_counter', { botId, key })
+    if (row && !this.cache.has(cacheKey)) {
+      this.cache.set(cacheKey, row)
+    }
+    return this.cache.get(cacheKey)
+  }
+
+  private getCacheKey(botId: string, key: string): string {
+    return `${botId}|${key}`
+  }
+}
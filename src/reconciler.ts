@@ -0,0 +1,188 @@
+// src/reconciler.ts
+import { Context } from 'koishi'
+import { BotManager, DEFAULT_PERSONA_SCOPE, TEMPLATE_ROOM_SCOPE } from './bot-manager'
+import { BotPersonaConfig, ReconcileReport } from './types'
+
+/**
+ * 人设配置同步器
+ * 在 bot 配置变更后立即把新的预设和模型应用到已有的 room，
+ * 而不是等待 charon_fix_room_auto_update 在用户下一条消息时再修复
+ */
+export class PersonaReconciler {
+  private readonly logger: ReturnType<Context['logger']>
+
+  constructor(
+    private ctx: Context,
+    private botManager: BotManager,
+    private config: {
+      debug: boolean
+    }
+  ) {
+    this.logger = ctx.logger('chatluna-charon:reconcile')
+  }
+
+  /**
+   * 比较新旧配置，更新该 bot 的所有 room 并重新注册到 character 插件
+   */
+  async reconcile(
+    previous: BotPersonaConfig | undefined,
+    current: BotPersonaConfig | undefined
+  ): Promise<ReconcileReport> {
+    const botId = current?.botId ?? previous?.botId
+    const report: ReconcileReport = {
+      botId,
+      changedFields: this.diff(previous, current),
+      updatedRooms: [],
+      characterSynced: false,
+    }
+
+    if (report.changedFields.length === 0) {
+      return report
+    }
+
+    if (this.botManager.isBotPattern(botId)) {
+      await this.reconcilePattern(botId, previous, report)
+    } else if (current || this.botManager.getBotConfig(botId)) {
+      // 精确配置被删除时回落到匹配的通配符配置
+      const effective = current ?? this.botManager.getBotConfig(botId)
+      await this.updateRooms(effective, report)
+      report.characterSynced = this.botManager.registerCharacterConfig(effective)
+      this.botManager.setBotStatus(botId, {
+        currentPreset: effective.preset,
+        currentModel: effective.model,
+      })
+    } else {
+      // bot 配置已删除，清除 character 插件中的注册
+      const botConfigService = this.ctx.chatluna_character?.botConfig
+      if (botConfigService?.hasBotConfig(botId)) {
+        botConfigService.clearBotConfig(botId)
+        report.characterSynced = true
+      }
+    }
+
+    this.logger.info(
+      `[Charon] Bot ${botId} 配置变更 (${report.changedFields.join(', ')}): ` +
+      `已更新 ${report.updatedRooms.length} 个 room` +
+      (report.templateRoomId ? `（含模板房间 ${report.templateRoomId}）` : '') +
+      (report.characterSynced ? '，已同步到 character 插件' : '')
+    )
+
+    return report
+  }
+
+  /**
+   * 通配符配置变更时，同步所有没有精确配置、匹配该通配符的 bot
+   * 每个 bot 按变更后的配置重新解析，通配符被删除时回落到次具体的通配符
+   */
+  private async reconcilePattern(
+    pattern: string,
+    previous: BotPersonaConfig | undefined,
+    report: ReconcileReport
+  ): Promise<void> {
+    const candidates = new Set([
+      ...this.botManager.getKnownBotIds(),
+      ...await this.botManager.roomBindings.listBotIds(),
+    ])
+
+    for (const botId of candidates) {
+      if (!this.botManager.matchBotPattern(pattern, botId)) continue
+      if (this.botManager.getExplicitBotConfig(botId)) continue
+
+      const current = this.botManager.getBotConfig(botId)
+      if (current) {
+        await this.updateRooms(current, report)
+        report.characterSynced = this.botManager.registerCharacterConfig(current) || report.characterSynced
+      } else if (previous) {
+        const botConfigService = this.ctx.chatluna_character?.botConfig
+        if (botConfigService?.hasBotConfig(botId)) {
+          botConfigService.clearBotConfig(botId)
+          report.characterSynced = true
+        }
+      }
+    }
+  }
+
+  /**
+   * 比较新旧配置，返回发生变化的字段
+   */
+  private diff(
+    previous: BotPersonaConfig | undefined,
+    current: BotPersonaConfig | undefined
+  ): string[] {
+    if (!previous || !current) {
+      return previous || current ? ['botId'] : []
+    }
+
+    const keys = new Set([...Object.keys(previous), ...Object.keys(current)])
+    return [...keys].filter(key =>
+      JSON.stringify(previous[key as keyof BotPersonaConfig]) !==
+      JSON.stringify(current[key as keyof BotPersonaConfig])
+    )
+  }
+
+  /**
+   * 将新配置应用到该 bot 的所有 room（包括模板房间）
+   */
+  private async updateRooms(botConfig: BotPersonaConfig, report: ReconcileReport): Promise<void> {
+    const botId = botConfig.botId
+
+    // 通过 charon_room_binding 表获取该 bot 的所有 room
+    const bindings = await this.botManager.roomBindings.list(botId)
+    if (bindings.length === 0) return
+
+    const bindingMap = new Map(bindings.map(b => [b.roomId, b]))
+    const rooms = await this.ctx.database.get('chathub_room', {
+      roomId: { $in: [...bindingMap.keys()] },
+    })
+
+    for (const room of rooms) {
+      // 模板房间始终使用 Bot 的默认配置
+      const binding = bindingMap.get(room.roomId)
+      const isTemplate = binding.scope === TEMPLATE_ROOM_SCOPE
+      const scope = isTemplate ? DEFAULT_PERSONA_SCOPE : binding.scope
+      const userId = this.botManager.parseUserScope(scope)
+      const userChoice = userId ? await this.botManager.userChoices.get(botId, userId) : undefined
+      const persona = this.botManager.getPersonaForScope(botConfig, scope, binding.preset, userChoice)
+      const { name: presetName, source } = persona.preset
+        ? this.botManager.parsePresetName(persona.preset)
+        : { name: '', source: undefined }
+
+      const update: Partial<typeof room> = {}
+
+      // 控制台中为 room 单独指定的预设和模型优先
+      // 空值表示使用 ChatLuna 默认行为，不覆盖；character 预设不写入 room
+      const preset = binding.presetOverride || (source !== 'character' ? presetName : '')
+      const model = binding.modelOverride || persona.model
+      if (preset && room.preset !== preset) {
+        update.preset = preset
+      }
+      if (model && room.model !== model) {
+        update.model = model
+      }
+      if (room.chatMode !== persona.chatMode) {
+        update.chatMode = persona.chatMode
+      }
+
+      if (Object.keys(update).length === 0) continue
+
+      update.updatedTime = new Date()
+      await this.ctx.database.set('chathub_room', { roomId: room.roomId }, update)
+      report.updatedRooms.push(room.roomId)
+
+      if (isTemplate) {
+        report.templateRoomId = room.roomId
+      }
+
+      this.debug(`已更新 room ${room.roomName} (${room.roomId}):`, update)
+    }
+  }
+
+  /**
+   * 输出调试日志
+   */
+  private debug(...args: unknown[]): void {
+    if (this.config.debug) {
+      this.logger.debug(args as any)
+    }
+  }
+}
@@ -0,0 +1,105 @@
+// src/room-binding.ts
+import { Context } from 'koishi'
+import { RoomBinding } from './types'
+
+/**
+ * room 绑定存储
+ * 使用 charon_room_binding 表记录每个 room 所属的 bot 和作用域，
+ * 不再依赖 roomName 中的标签（用户重命名 room 后也能正确识别）
+ */
+export class RoomBindingStore {
+  constructor(private ctx: Context) {
+    ctx.model.extend('charon_room_binding', {
+      roomId: 'unsigned',
+      botId: 'string',
+      scope: 'string',
+      preset: 'string',
+      presetOverride: 'string',
+      modelOverride: 'string',
+      createdAt: 'timestamp',
+    }, {
+      primary: 'roomId',
+    })
+  }
+
+  /**
+   * 绑定 room 到 bot 的指定作用域
+   * @param preset 用户选择的预设（仅 user: 作用域）
+   */
+  async bind(roomId: number, botId: string, scope: string, preset = ''): Promise<void> {
+    await this.ctx.database.upsert('charon_room_binding', [{
+      roomId,
+      botId,
+      scope,
+      preset,
+      createdAt: new Date(),
+    }])
+  }
+
+  /**
+   * 批量写入绑定
+   */
+  async bindAll(bindings: RoomBinding[]): Promise<void> {
+    if (bindings.length === 0) return
+    await this.ctx.database.upsert('charon_room_binding', bindings)
+  }
+
+  /**
+   * 获取 room 的绑定
+   */
+  async get(roomId: number): Promise<RoomBinding | undefined> {
+    const [binding] = await this.ctx.database.get('charon_room_binding', { roomId })
+    return binding
+  }
+
+  /**
+   * 查询 bot 的绑定
+   * @param roomIds 仅在这些 room 中查询（可选）
+   * @param scope 仅查询该作用域（可选）
+   */
+  async list(botId: string, roomIds?: number[], scope?: string): Promise<RoomBinding[]> {
+    if (roomIds && roomIds.length === 0) return []
+    return await this.ctx.database.get('charon_room_binding', {
+      botId,
+      ...(roomIds ? { roomId: { $in: roomIds } } : {}),
+      ...(scope ? { scope } : {}),
+    })
+  }
+
+  /**
+   * 获取存在绑定记录的所有 botId
+   */
+  async listBotIds(): Promise<string[]> {
+    const bindings = await this.ctx.database.get('charon_room_binding', {}, ['botId'])
+    return [...new Set(bindings.map(b => b.botId))]
+  }
+
+  /**
+   * 获取已存在绑定的 room ID
+   */
+  async getBoundRoomIds(roomIds: number[]): Promise<Set<number>> {
+    if (roomIds.length === 0) return new Set()
+    const bindings = await this.ctx.database.get('charon_room_binding', {
+      roomId: { $in: roomIds },
+    }, ['roomId'])
+    return new Set(bindings.map(b => b.roomId))
+  }
+
+  /**
+   * 设置为 room 单独指定的预设和模型，空字符串表示跟随 bot 配置
+   */
+  async setOverride(
+    roomId: number,
+    override: Pick<RoomBinding, 'presetOverride' | 'modelOverride'>
+  ): Promise<void> {
+    await this.ctx.database.set('charon_room_binding', { roomId }, override)
+  }
+
+  /**
+   * 删除 room 的绑定
+   */
+  async unbind(roomIds: number[]): Promise<void> {
+    if (roomIds.length === 0) return
+    await this.ctx.database.remove('charon_room_binding', { roomId: roomIds })
+  }
+}
@@ -0,0 +1,136 @@
+// src/room-browser.ts
+import { Context, Tables } from 'koishi'
+import { BotManager, TEMPLATE_ROOM_SCOPE } from './bot-manager'
+import { RoomBinding, RoomInfo } from './types'
+
+/**
+ * room 浏览器
+ * 供控制台查看和管理 Charon 创建的 room（通过 charon_room_binding 识别），
+ * 不会操作不属于 Charon 的 room
+ */
+export class RoomBrowser {
+  private readonly logger: ReturnType<Context['logger']>
+
+  constructor(
+    private ctx: Context,
+    private botManager: BotManager
+  ) {
+    this.logger = ctx.logger('chatluna-charon:rooms')
+  }
+
+  /**
+   * 列出 bot 的所有 room
+   */
+  async list(botId: string): Promise<RoomInfo[]> {
+    const bindings = await this.botManager.roomBindings.list(botId)
+    if (bindings.length === 0) return []
+
+    const bindingMap = new Map(bindings.map(b => [b.roomId, b]))
+    const roomIds = [...bindingMap.keys()]
+    const [rooms, members, groups] = await Promise.all([
+      this.ctx.database.get('chathub_room', { roomId: { $in: roomIds } }),
+      this.ctx.database.get('chathub_room_member', { roomId: { $in: roomIds } }, ['roomId']),
+      this.ctx.database.get('chathub_room_group_member', { roomId: { $in: roomIds } }, ['roomId', 'groupId']),
+    ])
+
+    return rooms
+      .map(room => ({
+        roomId: room.roomId,
+        roomName: room.roomName,
+        scope: bindingMap.get(room.roomId).scope,
+        visibility: room.visibility,
+        guildIds: groups.filter(g => g.roomId === room.roomId).map(g => g.groupId),
+        roomMasterId: room.roomMasterId,
+        memberCount: members.filter(m => m.roomId === room.roomId).length,
+        preset: room.preset,
+        model: room.model,
+        presetOverride: bindingMap.get(room.roomId).presetOverride || '',
+        modelOverride: bindingMap.get(room.roomId).modelOverride || '',
+        chatMode: room.chatMode,
+        updatedTime: room.updatedTime,
+        conversationId: room.conversationId,
+      }))
+      .sort((a, b) => a.roomId - b.roomId)
+  }
+
+  /**
+   * 获取 Charon 管理的 room 及其绑定
+   */
+  async get(roomId: number): Promise<{ room: Tables['chathub_room']; binding: RoomBinding } | undefined> {
+    const binding = await this.botManager.roomBindings.get(roomId)
+    if (!binding) return
+
+    const [room] = await this.ctx.database.get('chathub_room', { roomId })
+    return room && { room, binding }
+  }
+
+  /**
+   * 重置 room 的对话
+   * ChatLuna 提供 clearChatHistory 时清除聊天记录，否则为 room 分配新的 conversationId
+   */
+  async reset(roomId: number): Promise<boolean> {
+    const { room, binding } = await this.get(roomId) ?? {}
+    if (!room) return false
+
+    if (this.ctx.chatluna?.clearChatHistory) {
+      await this.ctx.chatluna.clearChatHistory(room)
+    } else {
+      await this.ctx.database.set('chathub_room', { roomId }, {
+        conversationId: this.botManager.generateConversationId(binding.botId),
+        updatedTime: new Date(),
+      })
+    }
+
+    this.logger.info(`已重置 room ${room.roomName} (${roomId}) 的对话`)
+    return true
+  }
+
+  /**
+   * 为 room 单独指定预设和模型
+   * 指定的值记录在 room 绑定中，chain 和 bot 配置同步都会保留，不会被 bot 配置覆盖；
+   * 传入空字符串时恢复跟随 bot 配置，room 在下一条消息时同步
+   */
+  async update(roomId: number, update: { preset?: string; model?: string }): Promise<boolean> {
+    const { room } = await this.get(roomId) ?? {}
+    if (!room) return false
+
+    const override: Pick<RoomBinding, 'presetOverride' | 'modelOverride'> = {}
+    const roomUpdate: Partial<Tables['chathub_room']> = {}
+    if (update.preset !== undefined) {
+      override.presetOverride = update.preset
+      if (update.preset) roomUpdate.preset = update.preset
+    }
+    if (update.model !== undefined) {
+      override.modelOverride = update.model
+      if (update.model) roomUpdate.model = update.model
+    }
+
+    await this.botManager.roomBindings.setOverride(roomId, override)
+    if (Object.keys(roomUpdate).length > 0) {
+      await this.ctx.database.set('chathub_room', { roomId }, {
+        ...roomUpdate,
+        updatedTime: new Date(),
+      })
+    }
+
+    this.logger.info(`已修改 room ${room.roomName} (${roomId}):`, update)
+    return true
+  }
+
+  /**
+   * 删除 room 及其成员、群组和绑定记录
+   */
+  async delete(roomId: number): Promise<boolean> {
+    const { room, binding } = await this.get(roomId) ?? {}
+    if (!room) return false
+
+    await this.botManager.deleteRoom(room)
+
+    if (binding.scope === TEMPLATE_ROOM_SCOPE) {
+      this.botManager.setBotStatus(binding.botId, { initialized: false, templateRoomId: undefined })
+    }
+
+    this.logger.info(`已删除 room ${room.roomName} (${roomId})`)
+    return true
+  }
+}
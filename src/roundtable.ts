@@ -0,0 +1,399 @@
+// src/roundtable.ts
+import { Context } from 'koishi'
+import { randomUUID } from 'crypto'
+import { BotManager } from './bot-manager'
+import { RoundtableConfig, RoundtableMode } from './types'
+
+/** 各模式的开场说明 */
+const MODE_PROMPTS: Record<RoundtableMode, (topic: string) => string> = {
+  debate: topic => `你正在参与一场关于「${topic}」的辩论。请坚持你的人设立场，针对其他参与者的观点进行回应和反驳。`,
+  relay: topic => `你正在参与一场以「${topic}」为主题的故事接龙。请在前文的基础上继续讲述故事，保持情节连贯。`,
+  panel: topic => `你正在参与一场关于「${topic}」的圆桌问答。请从你的人设角度回答问题，并可以向其他参与者提问。`,
+}
+
+/** 各模式的显示名称 */
+const MODE_LABELS: Record<RoundtableMode, string> = {
+  debate: '辩论',
+  relay: '故事接龙',
+  panel: '圆桌问答',
+}
+
+/** 单次发言 */
+interface RoundtableTurn {
+  botId: string
+  name: string
+  content: string
+}
+
+/** 进行中的圆桌讨论 */
+interface RoundtableSession {
+  id: string
+  topic: string
+  mode: RoundtableMode
+  botIds: string[]
+  platform: string
+  guildId: string
+  channelId: string
+  maxTurns: number
+  transcript: RoundtableTurn[]
+  /** botId -> 该 bot 已读到的发言位置 */
+  cursors: Map<string, number>
+  /** botId -> 本场讨论专用的 room，讨论结束后删除 */
+  rooms: Map<string, any>
+  stopped: boolean
+  /** 进行中的 ChatLuna 请求，用于插件停用时中止 */
+  request?: { room: any; requestId: string }
+  /** 结束轮次间隔的等待 */
+  wake?: () => void
+  startedBy: string
+  startedAt: Date
+}
+
+/**
+ * 圆桌讨论管理器
+ * 让多个人设 bot 围绕同一话题轮流发言，每个 bot 使用自己的预设和模型，
+ * 并在本场讨论专用的 room 中获得其他参与者的发言
+ */
+export class RoundtableManager {
+  private readonly logger: ReturnType<Context['logger']>
+  /** platform:channelId -> 进行中的讨论 */
+  private readonly sessions: Map<string, RoundtableSession> = new Map()
+
+  constructor(
+    private ctx: Context,
+    private botManager: BotManager,
+    private config: RoundtableConfig & {
+      debug: boolean
+    }
+  ) {
+    this.logger = ctx.logger('chatluna-charon:roundtable')
+  }
+
+  /**
+   * 开始一场圆桌讨论
+   * @returns 错误提示，成功开始时返回 undefined
+   */
+  start(
+    session: any,
+    topic: string,
+    botIds: string[],
+    options: { turns?: number; mode?: RoundtableMode }
+  ): string | undefined {
+    if (!session.guildId) {
+      return '圆桌讨论只能在群聊中进行'
+    }
+
+    const key = this.getKey(session.platform, session.channelId)
+    if (this.sessions.has(key)) {
+      return '当前频道已有进行中的圆桌讨论，请先使用 charon.roundtable.stop 结束'
+    }
+
+    const uniqueIds = [...new Set(botIds)]
+    if (uniqueIds.length < 2) {
+      return '圆桌讨论至少需要 2 个 bot'
+    }
+
+    for (const botId of uniqueIds) {
+      const botConfig = this.botManager.getBotConfig(botId)
+      if (!botConfig || !botConfig.enabled) {
+        return `bot ${botId} 未配置或未启用人设`
+      }
+      if (this.botManager.parsePresetName(botConfig.preset || '').source === 'character') {
+        return `bot ${botId} 使用 character 预设，无法参与圆桌讨论`
+      }
+      if (!this.getBot(botId)) {
+        return `bot ${botId} 不在线`
+      }
+      if (this.botManager.parseBotId(botId).platform !== session.platform) {
+        return `bot ${botId} 与当前频道不在同一平台`
+      }
+    }
+
+    const mode = options.mode && MODE_PROMPTS[options.mode] ? options.mode : 'debate'
+    const roundtable: RoundtableSession = {
+      id: randomUUID().slice(0, 8),
+      topic,
+      mode,
+      botIds: uniqueIds,
+      platform: session.platform,
+      guildId: session.guildId,
+      channelId: session.channelId,
+      maxTurns: Math.min(options.turns || this.config.maxTurns, this.config.maxTurns),
+      transcript: [],
+      cursors: new Map(),
+      rooms: new Map(),
+      stopped: false,
+      startedBy: session.userId,
+      startedAt: new Date(),
+    }
+
+    this.sessions.set(key, roundtable)
+    this.logger.info(
+      `[Charon] 圆桌讨论 ${roundtable.id} 开始: 话题「${topic}」，模式 ${MODE_LABELS[mode]}，` +
+      `参与者 ${uniqueIds.join(', ')}，最多 ${roundtable.maxTurns} 轮，发起人 ${session.userId}`
+    )
+
+    this.run(roundtable, session)
+      .catch((error) => {
+        if (roundtable.stopped) {
+          this.debug(`圆桌讨论 ${roundtable.id} 停止时请求被中止:`, error)
+        } else {
+          this.logger.warn(`[Charon] 圆桌讨论 ${roundtable.id} 异常结束:`, error)
+        }
+      })
+      .finally(() => this.finish(key, roundtable))
+
+    return undefined
+  }
+
+  /**
+   * 停止频道中进行中的圆桌讨论
+   * @returns 是否存在进行中的讨论
+   */
+  stop(platform: string, channelId: string): boolean {
+    const roundtable = this.sessions.get(this.getKey(platform, channelId))
+    if (!roundtable) return false
+    roundtable.stopped = true
+    roundtable.wake?.()
+    return true
+  }
+
+  /**
+   * 停止所有圆桌讨论，并中止进行中的 ChatLuna 请求
+   */
+  stopAll(): void {
+    for (const roundtable of this.sessions.values()) {
+      roundtable.stopped = true
+      roundtable.wake?.()
+
+      const { request } = roundtable
+      if (request && this.ctx.chatluna?.stopChat) {
+        this.ctx.chatluna.stopChat(request.room, request.requestId)
+          .catch((error) => this.logger.warn(`[Charon] 中止圆桌讨论 ${roundtable.id} 的请求失败:`, error))
+      }
+    }
+  }
+
+  /**
+   * 轮流发言直到达到最大轮数或被停止
+   */
+  private async run(roundtable: RoundtableSession, origin: any): Promise<void> {
+    for (let turn = 0; turn < roundtable.maxTurns && !roundtable.stopped; turn++) {
+      const botId = roundtable.botIds[turn % roundtable.botIds.length]
+      const bot = this.getBot(botId)
+      if (!bot) {
+        this.logger.warn(`[Charon] 圆桌讨论 ${roundtable.id}: bot ${botId} 已离线，讨论结束`)
+        break
+      }
+
+      const content = await this.speak(roundtable, botId, bot, origin)
+      if (roundtable.stopped) break
+      if (!content) {
+        this.logger.warn(`[Charon] 圆桌讨论 ${roundtable.id}: bot ${botId} 没有给出回复，讨论结束`)
+        break
+      }
+
+      const name = bot.user?.name || botId
+      roundtable.transcript.push({ botId, name, content })
+      this.debug(`圆桌讨论 ${roundtable.id} 第 ${turn + 1} 轮 ${name}: ${content}`)
+
+      await bot.sendMessage(roundtable.channelId, content, roundtable.guildId)
+
+      if (turn + 1 < roundtable.maxTurns) {
+        await this.sleep(roundtable, this.config.turnInterval * 1000)
+      }
+    }
+  }
+
+  /**
+   * 等待轮次间隔，讨论停止时立即结束
+   */
+  private async sleep(roundtable: RoundtableSession, ms: number): Promise<void> {
+    if (roundtable.stopped) return
+
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, ms)
+      roundtable.wake = () => {
+        clearTimeout(timer)
+        resolve()
+      }
+    })
+    roundtable.wake = undefined
+  }
+
+  /**
+   * 让 bot 根据目前为止的发言给出本轮内容
+   */
+  private async speak(roundtable: RoundtableSession, botId: string, bot: any, origin: any): Promise<string> {
+    const chatluna = this.ctx.chatluna
+    if (!chatluna?.chat) {
+      throw new Error('ChatLuna 不支持直接对话，无法进行圆桌讨论')
+    }
+
+    const room = await this.getRoom(roundtable, botId, origin)
+    const message = this.buildMessage(roundtable, botId)
+    roundtable.cursors.set(botId, roundtable.transcript.length)
+
+    const session = bot.session({ ...origin.event, selfId: bot.selfId })
+    const requestId = randomUUID()
+    roundtable.request = { room, requestId }
+
+    let response: { content: any }
+    try {
+      response = await chatluna.chat(
+        session,
+        room,
+        {
+          content: message,
+          name: origin.username || origin.userId,
+          conversationId: room.conversationId,
+          additional_kwargs: {},
+        },
+        {
+          'llm-new-token': async () => {},
+          'llm-queue-waiting': async () => {},
+          'llm-used-tool': async () => {},
+          'llm-call-tool': async () => {},
+        },
+        false,
+        undefined,
+        undefined,
+        requestId
+      )
+    } finally {
+      roundtable.request = undefined
+    }
+
+    const content = response?.content
+    return (typeof content === 'string' ? content : JSON.stringify(content ?? '')).trim()
+  }
+
+  /**
+   * 构造发给 bot 的消息：首次发言包含讨论说明，之后只包含该 bot 上次发言以来的新内容
+   */
+  private buildMessage(roundtable: RoundtableSession, botId: string): string {
+    const cursor = roundtable.cursors.get(botId)
+    const lines: string[] = []
+
+    if (cursor === undefined) {
+      const others = roundtable.botIds
+        .filter(id => id !== botId)
+        .map(id => this.getBot(id)?.user?.name || id)
+      lines.push(MODE_PROMPTS[roundtable.mode](roundtable.topic))
+      lines.push(`其他参与者: ${others.join('、')}。每次只需给出你自己的一段发言，不要替其他参与者发言。`)
+    }
+
+    const unread = roundtable.transcript.slice(cursor ?? 0)
+    if (unread.length > 0) {
+      lines.push('', '其他参与者的发言：')
+      for (const turn of unread) {
+        lines.push(`【${turn.name}】${turn.content}`)
+      }
+    }
+
+    lines.push('', unread.length === 0 && cursor === undefined ? '请你第一个发言。' : '现在轮到你发言。')
+    return lines.join('\n')
+  }
+
+  /**
+   * 获取 bot 在本场讨论中使用的 room，不存在时创建
+   */
+  private async getRoom(roundtable: RoundtableSession, botId: string, origin: any): Promise<any> {
+    const existing = roundtable.rooms.get(botId)
+    if (existing) return existing
+
+    const botConfig = this.botManager.getBotConfig(botId)
+    const persona = this.botManager.resolvePersona(botConfig, {
+      guildId: roundtable.guildId,
+      channelId: roundtable.channelId,
+    })
+
+    const scope = `roundtable:${roundtable.id}`
+    const room = await this.botManager.createRoom({
+      botId,
+      scope,
+      roomName: `圆桌讨论 ${roundtable.id} ${this.botManager.getRoomTag(botId, scope)}`,
+      roomMasterId: origin.userId,
+      visibility: 'private',
+      preset: persona.preset,
+      model: persona.model,
+      chatMode: persona.chatMode,
+    })
+
+    roundtable.rooms.set(botId, room)
+    return room
+  }
+
+  /**
+   * 结束讨论，删除本场讨论专用的 room 并输出完整记录
+   */
+  private async finish(key: string, roundtable: RoundtableSession): Promise<void> {
+    this.sessions.delete(key)
+
+    for (const room of roundtable.rooms.values()) {
+      try {
+        await this.botManager.deleteRoom(room)
+      } catch (error) {
+        this.logger.warn(`[Charon] 删除圆桌讨论 ${roundtable.id} 的 room ${room.roomId} 失败:`, error)
+      }
+    }
+
+    const duration = Math.round((Date.now() - roundtable.startedAt.getTime()) / 1000)
+    const transcript = roundtable.transcript
+      .map((turn, index) => `${index + 1}. 【${turn.name}】${turn.content}`)
+      .join('\n')
+
+    this.logger.info(
+      `[Charon] 圆桌讨论 ${roundtable.id} 结束${roundtable.stopped ? '（已手动停止）' : ''}: ` +
+      `共 ${roundtable.transcript.length} 轮，用时 ${duration} 秒\n${transcript}`
+    )
+  }
+
+  private getBot(botId: string): any {
+    const { platform, selfId } = this.botManager.parseBotId(botId)
+    return this.ctx.bots.find(b => b.platform === platform && b.selfId === selfId)
+  }
+
+  private getKey(platform: string, channelId: string): string {
+    return `${platform}:${channelId}`
+  }
+
+  /**
+   * 输出调试日志
+   */
+  private debug(...args: unknown[]): void {
+    if (this.config.debug) {
+      this.logger.debug(args as any)
+    }
+  }
+}
+
+/**
+ * 注册圆桌讨论指令
+ */
+export function registerRoundtableCommands(ctx: Context, roundtable: RoundtableManager): void {
+  ctx.command('charon.roundtable', '多 bot 圆桌讨论', { authority: 3 })
+
+  ctx.command('charon.roundtable.start <topic:string> <...botIds:string>', '开始圆桌讨论', { authority: 3 })
+    .option('turns', '-t <turns:posint> 最大轮数')
+    .option('mode', '-m <mode:string> 讨论模式：debate（辩论）、relay（故事接龙）、panel（圆桌问答）')
+    .usage('例如：charon.roundtable.start "猫和狗谁更可爱" onebot:111 onebot:222 -t 6 -m debate')
+    .action(({ session, options }, topic, ...botIds) => {
+      if (!topic || botIds.length === 0) {
+        return '用法：charon.roundtable.start <话题> <botId...>'
+      }
+
+      const error = roundtable.start(session, topic, botIds, {
+        turns: options.turns,
+        mode: options.mode as RoundtableMode,
+      })
+      return error ?? `圆桌讨论开始：${topic}（参与者 ${botIds.length} 个，使用 charon.roundtable.stop 结束）`
+    })
+
+  ctx.command('charon.roundtable.stop', '结束当前频道的圆桌讨论', { authority: 3 })
+    .action(({ session }) => {
+      return roundtable.stop(session.platform, session.channelId)
+        ? '圆桌讨论将在本轮结束后停止'
+        : '当前频道没有进行中的圆桌讨论'
+    })
+}
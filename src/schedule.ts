@@ -0,0 +1,80 @@
+// src/schedule.ts
+import { PersonaSchedule } from './types'
+
+/** HH:mm 格式 */
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/
+
+/** Intl 返回的星期缩写 */
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+/**
+ * 将 HH:mm 转换为当天的分钟数
+ * @returns 分钟数，格式无效时返回 null
+ */
+export function parseTime(time: string | undefined): number | null {
+  const match = time?.trim().match(TIME_PATTERN)
+  if (!match) return null
+  return Number(match[1]) * 60 + Number(match[2])
+}
+
+/**
+ * 获取指定时区中的星期和分钟数
+ * @throws 时区无效时抛出 RangeError
+ */
+function getLocalTime(now: Date, timezone?: string): { day: number; minutes: number } {
+  if (!timezone) {
+    return { day: now.getDay(), minutes: now.getHours() * 60 + now.getMinutes() }
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now)
+  const get = (type: string) => parts.find(p => p.type === type)?.value
+
+  return {
+    day: WEEKDAYS.indexOf(get('weekday')),
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+  }
+}
+
+/**
+ * 判断时间段当前是否生效
+ * 跨越午夜的时间段（如 23:00-07:00）午夜之后的部分属于开始的那一天
+ * @throws 时区无效时抛出 RangeError
+ */
+export function isScheduleActive(schedule: PersonaSchedule, now = new Date()): boolean {
+  const start = parseTime(schedule.start)
+  const end = parseTime(schedule.end)
+  if (start === null || end === null || start === end) return false
+
+  const { day, minutes } = getLocalTime(now, schedule.timezone)
+  const onDay = (d: number) => !schedule.days?.length || schedule.days.includes(d)
+
+  if (start < end) {
+    return onDay(day) && minutes >= start && minutes < end
+  }
+  return (onDay(day) && minutes >= start) || (onDay((day + 6) % 7) && minutes < end)
+}
+
+/**
+ * 获取当前生效的时间段，多个时间段同时生效时取配置中的第一个
+ * @param onError 时间段配置无效时的回调
+ */
+export function findActiveSchedule(
+  schedules: PersonaSchedule[] | undefined,
+  onError?: (schedule: PersonaSchedule, error: unknown) => void,
+  now = new Date()
+): PersonaSchedule | undefined {
+  return schedules?.find(schedule => {
+    try {
+      return isScheduleActive(schedule, now)
+    } catch (error) {
+      onError?.(schedule, error)
+      return false
+    }
+  })
+}
@@ -0,0 +1,353 @@
+// src/transfer.ts
+import { Context } from 'koishi'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { dirname, isAbsolute, relative, resolve, sep } from 'node:path'
+import yaml from 'js-yaml'
+import { BotManager } from './bot-manager'
+import { createBotConfigSchema } from './config'
+import { BotPersonaConfig, UserPersonaChoice } from './types'
+
+/** 导出文档的版本，格式变化时递增 */
+export const EXPORT_VERSION = 1
+
+/** 导出和导入文件所在的目录（相对于 Koishi 根目录） */
+export const TRANSFER_DIR = 'data/chatluna-charon'
+
+/** 导出文档的格式 */
+export type ExportFormat = 'json' | 'yaml'
+
+/** 导入模式：merge 只新增和更新，replace 同时删除文档中没有的 bot */
+export type ImportMode = 'merge' | 'replace'
+
+/** 导出的配置文档 */
+export interface CharonExport {
+  version: number
+  exportedAt: string
+  bots: BotPersonaConfig[]
+  /** 用户通过 charon.persona 选择的人设 */
+  userPersonas: UserPersonaChoice[]
+}
+
+/** 导入预览 */
+export interface ImportPlan {
+  mode: ImportMode
+  added: string[]
+  /** botId -> 变化的字段 */
+  updated: Array<{ botId: string; fields: string[] }>
+  removed: string[]
+  unchanged: string[]
+  userPersonas: number
+  /** 引用了当前不存在的预设或模型 */
+  warnings: string[]
+}
+
+/**
+ * 人设配置的导出和导入
+ * 用于在不同的 Koishi 实例之间迁移 bot 人设配置
+ */
+export class PersonaTransfer {
+  private readonly logger: ReturnType<Context['logger']>
+  private readonly botConfigSchema = createBotConfigSchema()
+
+  constructor(
+    private ctx: Context,
+    private botManager: BotManager
+  ) {
+    this.logger = ctx.logger('chatluna-charon:transfer')
+  }
+
+  /**
+   * 导出所有 bot 人设配置和用户的人设选择
+   */
+  async export(format: ExportFormat = 'yaml'): Promise<string> {
+    const document: CharonExport = {
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      bots: this.botManager.getBotsConfig(),
+      userPersonas: await this.botManager.userChoices.list(),
+    }
+
+    // 通过 JSON 转换去掉 undefined 和 Date 对象
+    const plain = JSON.parse(JSON.stringify(document))
+    return format === 'json'
+      ? JSON.stringify(plain, null, 2)
+      : yaml.dump(plain, { noRefs: true, lineWidth: -1 })
+  }
+
+  /**
+   * 解析并校验导出文档（支持 JSON 和 YAML）
+   * @throws 文档格式错误时抛出错误
+   */
+  parse(content: string): CharonExport {
+    let data: any
+    try {
+      data = yaml.load(content)
+    } catch (error) {
+      throw new Error(`无法解析文档: ${(error as Error).message}`)
+    }
+
+    if (!data || typeof data !== 'object' || !Array.isArray(data.bots)) {
+      throw new Error('文档中缺少 bots 列表')
+    }
+    if (typeof data.version !== 'number') {
+      throw new Error('文档中缺少版本号')
+    }
+    if (data.version > EXPORT_VERSION) {
+      throw new Error(`文档版本 ${data.version} 高于当前支持的版本 ${EXPORT_VERSION}，请先更新插件`)
+    }
+
+    const bots = data.bots.map((bot: unknown, index: number) => {
+      try {
+        return this.botConfigSchema(bot as BotPersonaConfig)
+      } catch (error) {
+        throw new Error(`bots[${index}] 格式错误: ${(error as Error).message}`)
+      }
+    })
+
+    const ids = new Set<string>()
+    for (const bot of bots) {
+      if (ids.has(bot.botId)) {
+        throw new Error(`Bot ${bot.botId} 重复`)
+      }
+      ids.add(bot.botId)
+    }
+
+    const userPersonas: UserPersonaChoice[] = (Array.isArray(data.userPersonas) ? data.userPersonas : [])
+      .filter((choice: any) => typeof choice?.botId === 'string' && typeof choice?.userId === 'string')
+      .map((choice: any) => ({
+        botId: choice.botId,
+        userId: choice.userId,
+        preset: choice.preset || '',
+        model: choice.model || '',
+        updatedTime: choice.updatedTime ? new Date(choice.updatedTime) : new Date(),
+      }))
+
+    return { version: data.version, exportedAt: data.exportedAt, bots, userPersonas }
+  }
+
+  /**
+   * 计算导入会产生的变化，不修改任何数据
+   */
+  plan(document: CharonExport, mode: ImportMode): ImportPlan {
+    // 当前配置也经过 Schema 补全默认值，避免默认值不同被当作变化
+    const current = new Map(this.botManager.getBotsConfig().map(bot => [bot.botId, this.normalize(bot)]))
+    const plan: ImportPlan = {
+      mode,
+      added: [],
+      updated: [],
+      removed: [],
+      unchanged: [],
+      userPersonas: document.userPersonas.length,
+      warnings: [],
+    }
+
+    for (const bot of document.bots) {
+      const before = current.get(bot.botId)
+      if (!before) {
+        plan.added.push(bot.botId)
+      } else {
+        const fields = diffFields(before, bot)
+        if (fields.length > 0) {
+          plan.updated.push({ botId: bot.botId, fields })
+        } else {
+          plan.unchanged.push(bot.botId)
+        }
+      }
+      plan.warnings.push(...this.checkReferences(bot))
+    }
+
+    if (mode === 'replace') {
+      const imported = new Set(document.bots.map(bot => bot.botId))
+      plan.removed = [...current.keys()].filter(botId => !imported.has(botId))
+    }
+
+    return plan
+  }
+
+  /**
+   * 导入配置
+   */
+  async apply(document: CharonExport, mode: ImportMode): Promise<ImportPlan> {
+    const plan = this.plan(document, mode)
+
+    if (mode === 'replace') {
+      await this.botManager.replaceConfig(document.bots, true)
+    } else {
+      const changed = new Set([...plan.added, ...plan.updated.map(u => u.botId)])
+      for (const bot of document.bots) {
+        if (changed.has(bot.botId)) {
+          await this.botManager.updateBotConfig(bot)
+        }
+      }
+    }
+
+    await this.botManager.userChoices.saveAll(document.userPersonas, mode === 'replace')
+
+    this.logger.info(
+      `已导入配置（${mode === 'replace' ? '替换' : '合并'}）：新增 ${plan.added.length}，` +
+      `更新 ${plan.updated.length}，删除 ${plan.removed.length}，用户人设选择 ${plan.userPersonas} 条`
+    )
+    return plan
+  }
+
+  private normalize(bot: BotPersonaConfig): BotPersonaConfig {
+    try {
+      return this.botConfigSchema(bot)
+    } catch {
+      return bot
+    }
+  }
+
+  /**
+   * 检查 bot 配置引用的预设和模型是否存在
+   */
+  private checkReferences(bot: BotPersonaConfig): string[] {
+    const presets = [
+      bot.preset,
+      bot.privatePreset,
+      ...(bot.overrides || []).map(o => o.preset),
+      ...(bot.schedules || []).map(s => s.preset),
+      ...(bot.userPresets || []),
+    ]
+    const models = [
+      bot.model,
+      bot.privateModel,
+      ...(bot.fallbackModels || []),
+      ...(bot.overrides || []).map(o => o.model),
+      ...(bot.schedules || []).map(s => s.model),
+      ...(bot.userModels || []),
+      bot.budget?.downgradeModel,
+    ]
+
+    const warnings: string[] = []
+    for (const preset of new Set(presets.filter(Boolean))) {
+      if (!this.botManager.findPreset(preset)) {
+        warnings.push(`${bot.botId} 引用的预设 ${preset} 不存在`)
+      }
+    }
+    for (const model of new Set(models.filter(Boolean))) {
+      if (!this.botManager.findModel(model)) {
+        warnings.push(`${bot.botId} 引用的模型 ${model} 不存在`)
+      }
+    }
+    return warnings
+  }
+}
+
+/**
+ * 格式化导入预览
+ */
+export function formatImportPlan(plan: ImportPlan): string {
+  let output = `${plan.mode === 'replace' ? '替换' : '合并'}模式：\n`
+  output += `- 新增: ${plan.added.length > 0 ? plan.added.join(', ') : '无'}\n`
+  output += `- 更新: ${plan.updated.length > 0
+    ? plan.updated.map(u => `${u.botId}（${u.fields.join(', ')}）`).join(', ')
+    : '无'}\n`
+  if (plan.mode === 'replace') {
+    output += `- 删除: ${plan.removed.length > 0 ? plan.removed.join(', ') : '无'}\n`
+  }
+  output += `- 未变化: ${plan.unchanged.length} 个\n`
+  output += `- 用户人设选择: ${plan.userPersonas} 条\n`
+
+  if (plan.warnings.length > 0) {
+    output += `\n警告：\n${plan.warnings.map(w => `- ${w}`).join('\n')}\n`
+  }
+  return output.trim()
+}
+
+/**
+ * 注册导出和导入指令
+ */
+export function registerTransferCommands(ctx: Context, transfer: PersonaTransfer): void {
+  ctx.command('charon.export', '导出所有 bot 的人设配置', { authority: 4 })
+    .option('format', '-f <format:string> 导出格式：yaml（默认）或 json', { fallback: 'yaml' })
+    .option('output', `-o <file:string> 写入 ${TRANSFER_DIR} 目录下的文件，不指定时直接输出`)
+    .action(async ({ options }) => {
+      if (options.format !== 'yaml' && options.format !== 'json') {
+        return `不支持的格式: ${options.format}，可选 yaml 或 json`
+      }
+
+      const content = await transfer.export(options.format)
+      if (!options.output) {
+        return content
+      }
+
+      const path = resolveTransferPath(ctx, options.output)
+      if (!path) {
+        return `文件路径必须位于 ${TRANSFER_DIR} 目录下`
+      }
+      await mkdir(dirname(path), { recursive: true })
+      await writeFile(path, content, 'utf8')
+      return `已导出到 ${path}`
+    })
+
+  ctx.command('charon.import [content:text]', '导入 bot 的人设配置', { authority: 4 })
+    .option('input', `-i <file:string> 从 ${TRANSFER_DIR} 目录下的文件导入`)
+    .option('mode', '-m <mode:string> 导入模式：merge（合并，默认）或 replace（替换，删除文档中没有的 bot）', { fallback: 'merge' })
+    .option('dryRun', '-n 只预览变化，不导入')
+    .option('force', '-f 引用的预设或模型不存在时仍然导入')
+    .usage(`直接粘贴 JSON / YAML 配置文本，或使用 -i 指定 ${TRANSFER_DIR} 目录下的文件`)
+    .action(async ({ options }, text) => {
+      if (options.input && text) {
+        return '不能同时指定文件和配置文本'
+      }
+      if (!options.input && !text) {
+        return '请提供配置文本，或使用 -i 指定要导入的文件'
+      }
+      if (options.mode !== 'merge' && options.mode !== 'replace') {
+        return `不支持的导入模式: ${options.mode}，可选 merge 或 replace`
+      }
+
+      let content = text
+      if (options.input) {
+        const path = resolveTransferPath(ctx, options.input)
+        if (!path) {
+          return `文件路径必须位于 ${TRANSFER_DIR} 目录下`
+        }
+        try {
+          content = await readFile(path, 'utf8')
+        } catch {
+          return `无法读取文件 ${path}`
+        }
+      }
+
+      let document: CharonExport
+      try {
+        document = transfer.parse(content)
+      } catch (error) {
+        return `导入失败：${(error as Error).message}`
+      }
+
+      const plan = transfer.plan(document, options.mode)
+      if (options.dryRun) {
+        return `导入预览（未修改任何配置）\n${formatImportPlan(plan)}`
+      }
+      if (plan.warnings.length > 0 && !options.force) {
+        return `${formatImportPlan(plan)}\n\n存在引用错误，未导入。确认无误后使用 -f 强制导入`
+      }
+
+      return `已导入配置\n${formatImportPlan(await transfer.apply(document, options.mode))}`
+    })
+}
+
+/**
+ * 解析导出和导入文件的路径
+ * @returns 绝对路径，路径离开 TRANSFER_DIR 目录时返回 undefined
+ */
+function resolveTransferPath(ctx: Context, file: string): string | undefined {
+  const root = resolve(ctx.baseDir, TRANSFER_DIR)
+  const path = resolve(root, file)
+  const rel = relative(root, path)
+  if (!rel || rel === '..' || rel.startsWith(`..${sep}`) || isAbsolute(rel)) return
+  return path
+}
+
+/**
+ * 获取两个配置中值不同的顶层字段
+ */
+function diffFields(before: BotPersonaConfig, after: BotPersonaConfig): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+  return [...keys].filter(key =>
+    JSON.stringify(before[key as keyof BotPersonaConfig]) !== JSON.stringify(after[key as keyof BotPersonaConfig])
+  )
+}
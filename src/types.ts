@@ -29,6 +29,21 @@ declare module 'koishi' {
         getDefaultPreset(): any
       }
       platform?: ChatLunaPlatformService
+      /** 清除 room 的聊天记录和会话缓存 */
+      clearChatHistory?(room: any): Promise<void>
+      /** 直接向指定 room 发送消息并获取模型回复 */
+      chat?(
+        session: any,
+        room: any,
+        message: { content: string; name?: string; conversationId?: string; additional_kwargs?: any },
+        event: Record<string, (...args: any[]) => any>,
+        stream?: boolean,
+        variables?: Record<string, any>,
+        postHandler?: any,
+        requestId?: string
+      ): Promise<{ content: any }>
+      /** 中止通过 chat 发起的请求 */
+      stopChat?(room: any, requestId: string): Promise<boolean>
     }
 
     // character 插件服务（@kotoko76/koishi-plugin-chatluna-character）
@@ -79,7 +94,7 @@ declare module 'koishi' {
       autoUpdate?: boolean
       password?: string
       // 注意：ChatLuna 的 chathub_room 表没有 botId 字段
-      // 我们通过在 roomName 中包含 botId 来标识 bot 特定的 room
+      // 我们通过 charon_room_binding 表记录 room 所属的 bot
     }
     chathub_room_member: {
       userId: string
@@ -97,6 +112,20 @@ declare module 'koishi' {
       groupId: string
       defaultRoomId: number
     }
+    /** room 与 bot 的绑定关系 */
+    charon_room_binding: RoomBinding
+    /** 用量统计 */
+    charon_usage: UsageRecord
+    /** 频率限制计数 */
+    charon_rate_counter: RateCounter
+    /** 用户为 bot 选择的人设 */
+    charon_user_persona: UserPersonaChoice
+    /** Charon 持久化的 Bot 人设配置 */
+    charon_bot_persona: {
+      botId: string
+      config: BotPersonaConfig
+      updatedTime: Date
+    }
   }
 
   interface Events {
@@ -108,6 +137,28 @@ declare module 'koishi' {
       chatInterface: any,
       session: any
     ): void
+    'chatluna/after-chat'(
+      conversationId: string,
+      sourceMessage: any,
+      responseMessage: any,
+      promptVariables: any,
+      chatInterface: any,
+      session: any
+    ): void
+    /**
+     * ChatLuna 请求模型失败
+     * 由 ChatInterface.handleChatError 触发（koishi-plugin-chatluna/llm-core/chat/app.ts），
+     * 注意第 6 个参数是 chain 而不是 session
+     */
+    'chatluna/after-chat-error'(
+      error: any,
+      conversationId: string,
+      sourceMessage: any,
+      promptVariables: any,
+      chatInterface: any,
+      chain?: any,
+      requestId?: string
+    ): void
     'chatluna-long-memory/init-layer'(layerConfig: any): void
     'console/ready'(): void
     'bot-status-updated'(bot: any): void
@@ -117,6 +168,8 @@ declare module 'koishi' {
     'chatluna_character/ready'(): void
     /** 插件配置更新事件 */
     'config-updated'(plugin: string): void
+    /** Charon 的 bot 配置、运行状态或预设列表变更 */
+    'charon/updated'(): void
   }
 }
 
@@ -135,6 +188,16 @@ export interface MbcBotInfo {
   enabled: boolean
 }
 
+/** 从 multi-bot-controller 扫描 bot 列表的结果 */
+export interface BotSyncResult {
+  /** 当前可用（已启用）的 bot */
+  botIds: string[]
+  /** 相比上次扫描新增的 bot */
+  added: string[]
+  /** 相比上次扫描移除的 bot */
+  removed: string[]
+}
+
 /** 单个 Bot 的人设配置 */
 export interface BotPersonaConfig {
   /** Bot 标识符 (格式: platform:selfId) */
@@ -147,6 +210,316 @@ export interface BotPersonaConfig {
   model: string
   /** 聊天模式 */
   chatMode?: 'chat' | 'plugin'
+  /** 私聊使用的预设，为空时使用 preset */
+  privatePreset?: string
+  /** 私聊使用的模型，为空时使用 model */
+  privateModel?: string
+  /** 私聊使用的聊天模式，为空时使用 chatMode */
+  privateChatMode?: 'chat' | 'plugin'
+  /** 按群组/频道/私聊覆盖的人设 */
+  overrides?: PersonaOverride[]
+  /** 主模型失败时依次尝试的回退模型 */
+  fallbackModels?: string[]
+  /** 按时间段切换的人设 */
+  schedules?: PersonaSchedule[]
+  /** 用户可以通过 charon.persona 选择的预设 */
+  userPresets?: string[]
+  /** 用户可以通过 charon.persona 选择的模型 */
+  userModels?: string[]
+  /** 群组、频道和用户的访问控制 */
+  acl?: BotAccessList
+  /** 频率限制和每日配额 */
+  limits?: RateLimitConfig
+  /** 每月用量预算，超出后切换到更便宜的模型 */
+  budget?: BotBudget
+  /** 生成参数，覆盖模型平台的默认值 */
+  generation?: GenerationParams
+  /** 注入到预设中的变量（如昵称、主人名称、口头禅） */
+  variables?: Record<string, string>
+}
+
+/** 人设覆盖的作用域类型 */
+export type PersonaScopeType = 'guild' | 'channel' | 'private'
+
+/** 按作用域覆盖的人设（未填写的字段继承 Bot 的默认配置） */
+export interface PersonaOverride {
+  /** 作用域类型 */
+  scope: PersonaScopeType
+  /** 群组 ID（scope 为 guild 时必填；scope 为 channel 时可选，用于限定所属群组） */
+  guildId?: string
+  /** 频道 ID（scope 为 channel 时必填） */
+  channelId?: string
+  /** 覆盖的预设 */
+  preset?: string
+  /** 覆盖的模型 */
+  model?: string
+  /** 覆盖的聊天模式 */
+  chatMode?: 'chat' | 'plugin'
+}
+
+/** 按时间段切换的人设（未填写的字段继承作用域覆盖或 Bot 的默认配置） */
+export interface PersonaSchedule {
+  /** 名称，用于日志和状态显示 */
+  name: string
+  /** 生效的星期（0 为周日），为空时每天生效 */
+  days: number[]
+  /** 开始时间 (HH:mm) */
+  start: string
+  /** 结束时间 (HH:mm)，早于开始时间时表示跨越午夜 */
+  end: string
+  /** 时区 (如 "Asia/Shanghai")，为空时使用系统时区 */
+  timezone?: string
+  /** 该时间段使用的预设 */
+  preset?: string
+  /** 该时间段使用的模型 */
+  model?: string
+  /** 该时间段使用的聊天模式 */
+  chatMode?: 'chat' | 'plugin'
+}
+
+/** 针对某个会话解析后的最终人设 */
+export interface ResolvedPersona {
+  /** Bot 标识符 */
+  botId: string
+  /** 作用域键 (default / private / guild:{guildId} / channel:{channelId})，不同作用域使用独立的 room */
+  scope: string
+  /** 预设名称（可能带来源前缀） */
+  preset: string
+  /** 模型 */
+  model: string
+  /** 聊天模式 */
+  chatMode: 'chat' | 'plugin'
+  /** 当前生效的时间段名称 */
+  schedule?: string
+}
+
+/** chain 守卫的判定结果 */
+export interface GuardResult {
+  /** 是否允许当前 bot 继续处理此消息 */
+  allow: boolean
+  /** 拒绝时回复给用户的消息（可选） */
+  reply?: string
+}
+
+/** 在 room 解析之前运行的守卫，用于决定当前 bot 是否处理此消息 */
+export interface ChainGuard {
+  /** 守卫名称（用于日志） */
+  readonly name: string
+  check(session: any, botConfig: BotPersonaConfig): GuardResult | Promise<GuardResult>
+}
+
+/** 访问控制列表的类型 */
+export type AccessListType =
+  | 'allowGuilds' | 'denyGuilds'
+  | 'allowChannels' | 'denyChannels'
+  | 'allowUsers' | 'denyUsers'
+
+/** Bot 的访问控制（允许列表为空时不限制） */
+export type BotAccessList = Partial<Record<AccessListType, string[]>> & {
+  /** 拒绝时回复的消息（留空则不回复） */
+  refusal?: string
+}
+
+/** Bot 的频率限制（0 表示不限制） */
+export interface RateLimitConfig {
+  /** 每个用户每分钟最多处理的消息数 */
+  perUserPerMinute: number
+  /** 每个群组每小时最多处理的消息数 */
+  perGuildPerHour: number
+  /** 每天最多处理的消息数（所有群组和私聊合计） */
+  perDay: number
+  /** 超出限制时回复的消息（留空则不回复） */
+  message?: string
+}
+
+/** 频率限制计数（charon_rate_counter 表） */
+export interface RateCounter {
+  /** Bot 标识符 */
+  botId: string
+  /** 计数键 (user:{userId} / guild:{guildId} / day) */
+  key: string
+  /** 当前时间窗口的开始时间 */
+  windowStart: Date
+  /** 时间窗口内的消息数 */
+  count: number
+}
+
+/** 模型生成参数（未填写的参数使用模型平台的默认值） */
+export interface GenerationParams {
+  /** 温度 (0 - 2) */
+  temperature?: number
+  /** 最大输出 token 数 */
+  maxTokens?: number
+  /** 核采样 (0 - 1) */
+  topP?: number
+  /** 频率惩罚 (-2 - 2) */
+  frequencyPenalty?: number
+  /** 存在惩罚 (-2 - 2) */
+  presencePenalty?: number
+}
+
+/** Bot 的每月用量预算（0 表示不限制） */
+export interface BotBudget {
+  /** 每月最多使用的 token 数 */
+  monthlyTokens: number
+  /** 每月最多花费的金额（按 modelPrices 计算） */
+  monthlyCost: number
+  /** 超出预算后使用的模型 */
+  downgradeModel: string
+}
+
+/** 模型价格（每百万 token） */
+export interface ModelPrice {
+  /** 模型名称 (platform/model) */
+  model: string
+  /** 输入价格 */
+  input: number
+  /** 输出价格 */
+  output: number
+}
+
+/** 用量统计（charon_usage 表），按 bot、模型、群组、用户和日期聚合 */
+export interface UsageRecord {
+  /** Bot 标识符 */
+  botId: string
+  /** 模型 */
+  model: string
+  /** 群组 ID，私聊为空字符串 */
+  guildId: string
+  /** 用户 ID */
+  userId: string
+  /** 日期 (YYYY-MM-DD，本地时间) */
+  date: string
+  /** 消息数 */
+  messages: number
+  /** 输入 token 数 */
+  inputTokens: number
+  /** 输出 token 数 */
+  outputTokens: number
+  /** 按字符数估算 token 的消息数（ChatLuna 未返回用量时） */
+  estimatedMessages: number
+}
+
+/** 用量汇总 */
+export interface UsageSummary {
+  messages: number
+  inputTokens: number
+  outputTokens: number
+  /** 按 modelPrices 计算的花费，未配置价格的模型不计入 */
+  cost: number
+}
+
+/** 防循环配置 */
+export interface LoopGuardConfig {
+  /** 收到受管 bot 消息时的策略：忽略 / 限制轮数 / 仅在被 @ 时回复 */
+  policy: 'ignore' | 'limit' | 'mention'
+  /** limit 策略下时间窗口内最多回复的轮数 */
+  maxTurns: number
+  /** limit 策略的时间窗口（秒） */
+  window: number
+}
+
+/** 圆桌讨论模式 */
+export type RoundtableMode = 'debate' | 'relay' | 'panel'
+
+/** 圆桌讨论配置 */
+export interface RoundtableConfig {
+  /** 单场讨论允许的最大轮数 */
+  maxTurns: number
+  /** 每轮发言之间的间隔（秒） */
+  turnInterval: number
+}
+
+/** 多 Bot 回复仲裁策略 */
+export type ArbitrationPolicy = 'mention' | 'keyword' | 'round-robin' | 'random' | 'last-speaker'
+
+/** 参与仲裁的 bot */
+export interface ArbitrationBot {
+  /** Bot 标识符 */
+  botId: string
+  /** 随机策略下的权重 */
+  weight?: number
+  /** 关键词策略下触发该 bot 的关键词（bot 的昵称会自动加入） */
+  keywords?: string[]
+}
+
+/** 群组的回复仲裁规则 */
+export interface ArbitrationRule {
+  /** 群组 ID（* 表示所有未单独配置的群组） */
+  guildId: string
+  /** 仲裁策略 */
+  policy: ArbitrationPolicy
+  /** 参与仲裁的 bot（留空则为同平台所有启用人设的 bot） */
+  bots?: ArbitrationBot[]
+}
+
+/** room 与 bot 的绑定关系（charon_room_binding 表） */
+export interface RoomBinding {
+  /** ChatLuna room ID */
+  roomId: number
+  /** 所属 Bot 标识符 */
+  botId: string
+  /** 作用域键（template 表示模板房间） */
+  scope: string
+  /** 用户通过 charon.persona 选择的预设，仅 user: 作用域的 room 有值 */
+  preset?: string
+  /** 管理员在控制台为该 room 指定的预设，空值表示跟随 Bot 配置 */
+  presetOverride?: string
+  /** 管理员在控制台为该 room 指定的模型，空值表示跟随 Bot 配置 */
+  modelOverride?: string
+  /** 绑定创建时间 */
+  createdAt: Date
+}
+
+/** 用户为 bot 选择的人设（charon_user_persona 表） */
+export interface UserPersonaChoice {
+  /** Bot 标识符 */
+  botId: string
+  /** 用户 ID */
+  userId: string
+  /** 选择的预设，为空时使用 Bot 的配置 */
+  preset: string
+  /** 选择的模型，为空时使用 Bot 的配置 */
+  model: string
+  /** 选择时间 */
+  updatedTime: Date
+}
+
+/** 配置变更后的同步结果 */
+export interface ReconcileReport {
+  /** Bot 标识符 */
+  botId: string
+  /** 发生变化的配置字段 */
+  changedFields: string[]
+  /** 已更新的 room ID 列表 */
+  updatedRooms: number[]
+  /** 已更新的 template room ID（如果有） */
+  templateRoomId?: number
+  /** 是否已同步到 character 插件 */
+  characterSynced: boolean
+}
+
+/** Charon 创建的 room 信息（供控制台浏览） */
+export interface RoomInfo {
+  roomId: number
+  roomName: string
+  /** 作用域键（template 表示模板房间） */
+  scope: string
+  visibility?: string
+  /** 关联的群组 */
+  guildIds: string[]
+  /** 房主 */
+  roomMasterId?: string
+  memberCount: number
+  preset?: string
+  model?: string
+  /** 单独指定的预设，为空时跟随 Bot 配置 */
+  presetOverride?: string
+  /** 单独指定的模型，为空时跟随 Bot 配置 */
+  modelOverride?: string
+  chatMode?: string
+  updatedTime: Date
+  conversationId: string
 }
 
 /** 预设信息 */
@@ -189,6 +562,22 @@ export interface BotStatus {
   currentPreset?: string
   /** 当前使用的模型 */
   currentModel?: string
+  /** 当前实际生效的模型（主模型冷却时为回退模型） */
+  effectiveModel?: string
+  /** 当前生效的时间段名称 */
+  activeSchedule?: string
+  /** 当月用量是否超出预算 */
+  overBudget?: boolean
   /** 错误信息（如果有） */
   error?: string
 }
+
+/** 推送到控制台页面的数据 */
+export interface CharonData {
+  bots: BotPersonaConfig[]
+  presets: PresetWithSource[]
+  models: ModelInfo[]
+  status: BotStatus[]
+  /** multi-bot-controller 中的 bot，用于添加 bot */
+  mbcBots: string[]
+}
@@ -0,0 +1,203 @@
+// src/usage-store.ts
+import { Context } from 'koishi'
+import { ModelPrice, UsageRecord, UsageSummary } from './types'
+
+/** 一次请求的用量 */
+export interface UsageEntry {
+  botId: string
+  model: string
+  guildId: string
+  userId: string
+  inputTokens: number
+  outputTokens: number
+  /** token 数是否为估算值 */
+  estimated: boolean
+}
+
+/**
+ * 用量统计存储
+ * 使用 charon_usage 表按 bot、模型、群组、用户和日期聚合每次请求的 token 用量，
+ * 并在内存中维护每个 bot 当月的用量，用于判断是否超出预算
+ */
+export class UsageStore {
+  private readonly logger: ReturnType<Context['logger']>
+  /** botId -> 当月用量 */
+  private monthly: Map<string, UsageSummary> = new Map()
+  /** monthly 对应的月份 (YYYY-MM) */
+  private month = ''
+  /** 写入队列，串行化同一行的读取和累加，以及当月用量的加载 */
+  private writeQueue: Promise<unknown> = Promise.resolve()
+
+  constructor(
+    private ctx: Context,
+    private config: {
+      /** 模型价格（每百万 token） */
+      prices: ModelPrice[]
+    }
+  ) {
+    this.logger = ctx.logger('chatluna-charon:usage')
+
+    ctx.model.extend('charon_usage', {
+      botId: 'string',
+      model: 'string',
+      guildId: 'string',
+      userId: 'string',
+      date: 'string',
+      messages: 'unsigned',
+      inputTokens: 'unsigned',
+      outputTokens: 'unsigned',
+      estimatedMessages: 'unsigned',
+    }, {
+      primary: ['botId', 'model', 'guildId', 'userId', 'date'],
+    })
+  }
+
+  /**
+   * 从数据库加载当月用量
+   * 与写入在同一队列中执行，加载前已写入的用量包含在查询结果中，加载期间的写入排在加载之后
+   */
+  async loadMonthly(): Promise<void> {
+    const task = this.writeQueue.then(() => this.load())
+    this.writeQueue = task.catch(() => {})
+    await task
+  }
+
+  private async load(): Promise<void> {
+    const month = formatDate(new Date()).slice(0, 7)
+    const rows = await this.ctx.database.get('charon_usage', { date: { $gte: `${month}-01` } })
+
+    const monthly = new Map<string, UsageSummary>()
+    for (const row of rows) {
+      addUsage(this.getSummary(monthly, row.botId), row, this.getCost(row.model, row.inputTokens, row.outputTokens))
+    }
+
+    this.monthly = monthly
+    this.month = month
+    this.logger.debug(`已加载 ${month} 的用量统计，共 ${rows.length} 条`)
+  }
+
+  /**
+   * 记录一次请求的用量
+   */
+  async record(entry: UsageEntry): Promise<void> {
+    const task = this.writeQueue.then(() => this.write(entry))
+    this.writeQueue = task.catch(() => {})
+    await task
+  }
+
+  /**
+   * 获取 bot 当月的用量
+   */
+  getMonthlyUsage(botId: string): UsageSummary {
+    this.rollover()
+    return this.monthly.get(botId) || { messages: 0, inputTokens: 0, outputTokens: 0, cost: 0 }
+  }
+
+  /**
+   * 查询最近几天的用量记录
+   * @param days 包括今天在内的天数
+   */
+  async query(days: number, botId?: string): Promise<UsageRecord[]> {
+    const since = new Date()
+    since.setDate(since.getDate() - Math.max(days, 1) + 1)
+    return await this.ctx.database.get('charon_usage', {
+      date: { $gte: formatDate(since) },
+      ...(botId ? { botId } : {}),
+    })
+  }
+
+  /**
+   * 按指定字段汇总用量记录
+   */
+  summarize(
+    records: UsageRecord[],
+    keyOf: (record: UsageRecord) => string
+  ): Map<string, UsageSummary> {
+    const result = new Map<string, UsageSummary>()
+    for (const record of records) {
+      const cost = this.getCost(record.model, record.inputTokens, record.outputTokens)
+      addUsage(this.getSummary(result, keyOf(record)), record, cost)
+    }
+    return result
+  }
+
+  /**
+   * 按 modelPrices 计算花费，未配置价格的模型返回 0
+   */
+  getCost(model: string, inputTokens: number, outputTokens: number): number {
+    const price = this.config.prices.find(p => p.model === model)
+    if (!price) return 0
+    return (inputTokens * price.input + outputTokens * price.output) / 1_000_000
+  }
+
+  private async write(entry: UsageEntry): Promise<void> {
+    const date = formatDate(new Date())
+    const key = {
+      botId: entry.botId,
+      model: entry.model,
+      guildId: entry.guildId,
+      userId: entry.userId,
+      date,
+    }
+
+    const [row] = await this.ctx.database.get('charon_usage', key)
+    const delta = {
+      messages: 1,
+      inputTokens: entry.inputTokens,
+      outputTokens: entry.outputTokens,
+      estimatedMessages: entry.estimated ? 1 : 0,
+    }
+
+    await this.ctx.database.upsert('charon_usage', [{
+      ...key,
+      messages: (row?.messages || 0) + delta.messages,
+      inputTokens: (row?.inputTokens || 0) + delta.inputTokens,
+      outputTokens: (row?.outputTokens || 0) + delta.outputTokens,
+      estimatedMessages: (row?.estimatedMessages || 0) + delta.estimatedMessages,
+    }])
+
+    this.rollover()
+    const cost = this.getCost(entry.model, entry.inputTokens, entry.outputTokens)
+    addUsage(this.getSummary(this.monthly, entry.botId), delta, cost)
+  }
+
+  /**
+   * 进入新的月份时清空当月用量
+   */
+  private rollover(): void {
+    const month = formatDate(new Date()).slice(0, 7)
+    if (month !== this.month) {
+      this.monthly = new Map()
+      this.month = month
+    }
+  }
+
+  private getSummary(map: Map<string, UsageSummary>, key: string): UsageSummary {
+    let summary = map.get(key)
+    if (!summary) {
+      summary = { messages: 0, inputTokens: 0, outputTokens: 0, cost: 0 }
+      map.set(key, summary)
+    }
+    return summary
+  }
+}
+
+/**
+ * 格式化为本地日期 (YYYY-MM-DD)
+ */
+function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+function addUsage(
+  summary: UsageSummary,
+  usage: Pick<UsageRecord, 'messages' | 'inputTokens' | 'outputTokens'>,
+  cost: number
+): void {
+  summary.messages += usage.messages
+  summary.inputTokens += usage.inputTokens
+  summary.outputTokens += usage.outputTokens
+  summary.cost += cost
+}
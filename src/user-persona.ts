@@ -0,0 +1,86 @@
+// src/user-persona.ts
+import { Context } from 'koishi'
+import { UserPersonaChoice } from './types'
+
+/**
+ * 用户人设选择存储
+ * 使用 charon_user_persona 表保存用户通过 charon.persona 选择的预设和模型，
+ * 读取结果缓存在内存中，避免每条消息都查询数据库
+ */
+export class UserPersonaStore {
+  /** botId|userId -> 选择（null 表示没有选择） */
+  private readonly cache: Map<string, UserPersonaChoice | null> = new Map()
+
+  constructor(private ctx: Context) {
+    ctx.model.extend('charon_user_persona', {
+      botId: 'string',
+      userId: 'string',
+      preset: 'string',
+      model: 'string',
+      updatedTime: 'timestamp',
+    }, {
+      primary: ['botId', 'userId'],
+    })
+  }
+
+  /**
+   * 获取用户为 bot 选择的人设
+   */
+  async get(botId: string, userId: string): Promise<UserPersonaChoice | undefined> {
+    const key = this.getKey(botId, userId)
+    if (this.cache.has(key)) {
+      return this.cache.get(key) ?? undefined
+    }
+
+    const [choice] = await this.ctx.database.get('charon_user_persona', { botId, userId })
+    this.cache.set(key, choice ?? null)
+    return choice
+  }
+
+  /**
+   * 保存用户的选择，预设和模型都为空时删除记录
+   */
+  async set(botId: string, userId: string, choice: { preset: string; model: string }): Promise<void> {
+    if (!choice.preset && !choice.model) {
+      await this.remove(botId, userId)
+      return
+    }
+
+    const row: UserPersonaChoice = { botId, userId, ...choice, updatedTime: new Date() }
+    await this.ctx.database.upsert('charon_user_persona', [row])
+    this.cache.set(this.getKey(botId, userId), row)
+  }
+
+  /**
+   * 删除用户的选择
+   */
+  async remove(botId: string, userId: string): Promise<void> {
+    await this.ctx.database.remove('charon_user_persona', { botId, userId })
+    this.cache.set(this.getKey(botId, userId), null)
+  }
+
+  /**
+   * 获取所有用户的选择
+   */
+  async list(): Promise<UserPersonaChoice[]> {
+    return await this.ctx.database.get('charon_user_persona', {})
+  }
+
+  /**
+   * 批量写入用户的选择
+   * @param replace 是否先删除所有已有的选择
+   */
+  async saveAll(choices: UserPersonaChoice[], replace = false): Promise<void> {
+    if (replace) {
+      await this.ctx.database.remove('charon_user_persona', {})
+    }
+    if (choices.length > 0) {
+      await this.ctx.database.upsert('charon_user_persona', choices)
+    }
+    this.cache.clear()
+  }
+
+  private getKey(botId: string, userId: string): string {
+    return `${botId}|${userId}`
+  }
+}
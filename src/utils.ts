@@ -0,0 +1,87 @@
+// src/utils.ts
+import { GenerationParams } from './types'
+
+/**
+ * 计算两个字符串的编辑距离
+ */
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0
+  if (!a.length) return b.length
+  if (!b.length) return a.length
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(current[j - 1] + 1, previous[j] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * 从候选列表中找出与输入最接近的项（用于输入错误时给出建议）
+ * 包含输入的候选优先，其次按编辑距离排序
+ * 候选项带有 "source:" 或 "platform/" 前缀时，同时与去掉前缀的部分比较
+ */
+export function suggest(input: string, candidates: string[], limit = 3): string[] {
+  const keyword = input.toLowerCase()
+  const maxDistance = Math.max(2, Math.floor(keyword.length / 3))
+
+  return candidates
+    .map(candidate => {
+      const lower = candidate.toLowerCase()
+      const tail = lower.slice(Math.max(lower.lastIndexOf(':'), lower.lastIndexOf('/')) + 1)
+      const distance = lower.includes(keyword) || (tail && keyword.includes(tail))
+        ? 0
+        : Math.min(levenshtein(keyword, lower), levenshtein(keyword, tail))
+      return { candidate, distance }
+    })
+    .filter(item => item.distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(item => item.candidate)
+}
+
+/**
+ * 格式化“你是否想要”提示
+ */
+export function formatSuggestions(suggestions: string[]): string {
+  return suggestions.length > 0 ? `\n你是否想要：${suggestions.join('、')}` : ''
+}
+
+/** 生成参数的取值范围 */
+export const GENERATION_PARAM_RANGES: Record<keyof GenerationParams, { min: number; max: number }> = {
+  temperature: { min: 0, max: 2 },
+  maxTokens: { min: 1, max: 1_000_000 },
+  topP: { min: 0, max: 1 },
+  frequencyPenalty: { min: -2, max: 2 },
+  presencePenalty: { min: -2, max: 2 },
+}
+
+/**
+ * 校验生成参数
+ * @returns 错误信息列表，全部有效时为空
+ */
+export function validateGenerationParams(params: GenerationParams | undefined): string[] {
+  if (!params) return []
+
+  const errors: string[] = []
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null) continue
+
+    const range = GENERATION_PARAM_RANGES[key as keyof GenerationParams]
+    if (!range) {
+      errors.push(`未知的生成参数 ${key}`)
+    } else if (typeof value !== 'number' || Number.isNaN(value)) {
+      errors.push(`${key} 必须是数字`)
+    } else if (value < range.min || value > range.max) {
+      errors.push(`${key} 必须在 ${range.min} 到 ${range.max} 之间`)
+    } else if (key === 'maxTokens' && !Number.isInteger(value)) {
+      errors.push('maxTokens 必须是整数')
+    }
+  }
+  return errors
+}
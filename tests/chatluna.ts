@@ -0,0 +1,40 @@
+// tests/chatluna.ts
+import { Context } from 'koishi'
+
+/**
+ * 声明 ChatLuna 的 room 相关表（测试环境中没有 ChatLuna）
+ */
+export function extendChatLunaTables(ctx: Context): void {
+  ctx.model.extend('chathub_room', {
+    roomId: 'unsigned',
+    roomName: 'string',
+    roomMasterId: 'string',
+    conversationId: 'string',
+    preset: 'string',
+    model: 'string',
+    chatMode: 'string',
+    visibility: 'string',
+    password: 'string',
+    autoUpdate: 'boolean',
+    updatedTime: 'timestamp',
+  }, { primary: 'roomId' })
+
+  ctx.model.extend('chathub_room_member', {
+    userId: 'string',
+    roomId: 'unsigned',
+    roomPermission: 'string',
+    mute: 'boolean',
+  }, { primary: ['userId', 'roomId'] })
+
+  ctx.model.extend('chathub_room_group_member', {
+    groupId: 'string',
+    roomId: 'unsigned',
+    roomVisibility: 'string',
+  }, { primary: ['groupId', 'roomId'] })
+
+  ctx.model.extend('chathub_user', {
+    userId: 'string',
+    groupId: 'string',
+    defaultRoomId: 'unsigned',
+  }, { primary: ['userId', 'groupId'] })
+}
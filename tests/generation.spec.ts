@@ -0,0 +1,87 @@
+// tests/generation.spec.ts
+import { App } from 'koishi'
+import MemoryDriver from '@minatojs/driver-memory'
+import { strict as assert } from 'node:assert'
+import { BotManager } from '../src/bot-manager'
+import { GenerationInterceptor } from '../src/interceptors/generation'
+import { BotPersonaConfig } from '../src/types'
+
+/**
+ * 模拟 ChatLuna 的模型实例：调用参数优先使用本次调用的选项，其次是 _options
+ */
+class FakeModel {
+  _options = { temperature: 1, maxTokens: undefined as number | undefined }
+
+  invocationParams(options?: any) {
+    return {
+      temperature: options?.temperature ?? this._options.temperature,
+      maxTokens: options?.maxTokens ?? this._options.maxTokens,
+    }
+  }
+
+  /** 与 ChatLuna 一样通过 this 计算调用参数，ChatLuna 会显式传入 maxTokens: undefined */
+  call() {
+    return this.invocationParams({ maxTokens: undefined })
+  }
+}
+
+/**
+ * 模拟 chat 模式的 ChatInterface，chain 使用共享的模型实例
+ */
+function createChatInterface(model: FakeModel) {
+  const wrapper = { chain: { llm: model as any } }
+  return {
+    wrapper,
+    chatInterface: { getChatLunaLLMChainWrapper: async () => wrapper },
+  }
+}
+
+describe('生成参数', () => {
+  let app: App
+
+  beforeEach(async () => {
+    app = new App()
+    app.plugin(MemoryDriver)
+    await app.start()
+  })
+
+  afterEach(async () => {
+    await app.stop()
+  })
+
+  it('只对该 bot 的会话生效，不修改共享的模型实例', async () => {
+    const bots = [
+      { botId: 'onebot:10001', enabled: true, generation: { temperature: 0.2, maxTokens: 256 } },
+      { botId: 'onebot:10002', enabled: true },
+    ] as BotPersonaConfig[]
+    const botManager = new BotManager(app, bots, {
+      debug: false,
+      verboseLogging: false,
+      fallbackThreshold: 3,
+      fallbackCooldown: 300,
+    })
+    const interceptor = new GenerationInterceptor(app, botManager, { debug: false })
+    await interceptor.start()
+
+    const model = new FakeModel()
+    const a = createChatInterface(model)
+    const b = createChatInterface(model)
+    const conversationA = botManager.generateConversationId('onebot:10001')
+    const conversationB = botManager.generateConversationId('onebot:10002')
+    await app.parallel('chatluna/before-chat', conversationA, {}, {}, a.chatInterface, undefined)
+    await app.parallel('chatluna/before-chat', conversationB, {}, {}, b.chatInterface, undefined)
+
+    assert.deepEqual(a.wrapper.chain.llm.call(), { temperature: 0.2, maxTokens: 256 })
+    assert.deepEqual(b.wrapper.chain.llm.call(), { temperature: 1, maxTokens: undefined })
+    assert.deepEqual(model.call(), { temperature: 1, maxTokens: undefined })
+    assert.deepEqual(model._options, { temperature: 1, maxTokens: undefined })
+
+    // 配置变更在下一次请求时生效
+    bots[0].generation = { temperature: 1.5 }
+    await app.parallel('chatluna/before-chat', conversationA, {}, {}, a.chatInterface, undefined)
+    assert.deepEqual(a.wrapper.chain.llm.call(), { temperature: 1.5, maxTokens: undefined })
+
+    interceptor.stop()
+    assert.equal(a.wrapper.chain.llm, model)
+  })
+})
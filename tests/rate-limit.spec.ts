@@ -0,0 +1,48 @@
+// tests/rate-limit.spec.ts
+import { App } from 'koishi'
+import MemoryDriver from '@minatojs/driver-memory'
+import { strict as assert } from 'node:assert'
+import { RateLimitGuard } from '../src/guards/rate-limit'
+import { BotPersonaConfig } from '../src/types'
+
+describe('频率限制', () => {
+  let app: App
+
+  beforeEach(async () => {
+    app = new App()
+    app.plugin(MemoryDriver)
+    await app.start()
+  })
+
+  afterEach(async () => {
+    await app.stop()
+  })
+
+  it('并发的消息不会同时通过检查', async () => {
+    const guard = new RateLimitGuard(app, { debug: false })
+    const botConfig = {
+      botId: 'onebot:10001',
+      limits: { perUserPerMinute: 2, perGuildPerHour: 0, perDay: 0 },
+    } as BotPersonaConfig
+    const session = { userId: 'user1', guildId: 'guild1' }
+
+    const results = await Promise.all(Array.from({ length: 5 }, () => guard.check(session, botConfig)))
+    assert.equal(results.filter(r => r.allow).length, 2)
+
+    const [usage] = await guard.getUsage(botConfig)
+    assert.equal(usage.count, 2)
+  })
+
+  it('被拒绝的消息不占用其他限制的额度', async () => {
+    const guard = new RateLimitGuard(app, { debug: false })
+    const botConfig = {
+      botId: 'onebot:10001',
+      limits: { perUserPerMinute: 1, perGuildPerHour: 10, perDay: 0 },
+    } as BotPersonaConfig
+
+    await Promise.all(Array.from({ length: 3 }, () => guard.check({ userId: 'user1', guildId: 'guild1' }, botConfig)))
+
+    const usage = await guard.getUsage(botConfig)
+    assert.equal(usage.find(u => u.key === 'guild:guild1')?.count, 1)
+  })
+})
@@ -0,0 +1,75 @@
+// tests/reconciler.spec.ts
+import { App } from 'koishi'
+import MemoryDriver from '@minatojs/driver-memory'
+import { strict as assert } from 'node:assert'
+import { BotManager } from '../src/bot-manager'
+import { PersonaReconciler } from '../src/reconciler'
+import { BotPersonaConfig } from '../src/types'
+import { extendChatLunaTables } from './chatluna'
+
+describe('配置同步', () => {
+  let app: App
+
+  beforeEach(async () => {
+    app = new App()
+    app.plugin(MemoryDriver)
+    extendChatLunaTables(app)
+    await app.start()
+  })
+
+  afterEach(async () => {
+    await app.stop()
+  })
+
+  it('用户选择的预设和模型在同步后保留', async () => {
+    const botConfig = {
+      botId: 'onebot:10001',
+      enabled: true,
+      preset: 'sydney',
+      model: 'openai/gpt-4o',
+      chatMode: 'chat',
+      userPresets: ['catgirl'],
+      userModels: ['openai/gpt-4o-mini'],
+    } as BotPersonaConfig
+    const botManager = new BotManager(app, [botConfig], {
+      debug: false,
+      verboseLogging: false,
+      fallbackThreshold: 3,
+      fallbackCooldown: 300,
+    })
+    const reconciler = new PersonaReconciler(app, botManager, { debug: false })
+
+    await botManager.userChoices.set('onebot:10001', 'user1', {
+      preset: 'catgirl',
+      model: 'openai/gpt-4o-mini',
+    })
+    const userRoom = await botManager.createRoom({
+      botId: 'onebot:10001',
+      scope: 'user:user1:catgirl',
+      roomName: 'user1 (onebot:10001|user:user1:catgirl)',
+      roomMasterId: 'user1',
+      guildId: 'guild1',
+      visibility: 'template_clone',
+      preset: 'catgirl',
+      model: 'openai/gpt-4o-mini',
+    })
+    const defaultRoom = await botManager.createRoom({
+      botId: 'onebot:10001',
+      roomName: 'guild1 (onebot:10001)',
+      roomMasterId: 'user2',
+      guildId: 'guild1',
+      visibility: 'template_clone',
+      preset: 'sydney',
+      model: 'openai/gpt-4o',
+    })
+
+    await reconciler.reconcile(botConfig, { ...botConfig, model: 'openai/gpt-4.1' })
+
+    const [user] = await app.database.get('chathub_room', { roomId: userRoom.roomId })
+    assert.equal(user.preset, 'catgirl')
+    assert.equal(user.model, 'openai/gpt-4o-mini')
+
+    const [room] = await app.database.get('chathub_room', { roomId: defaultRoom.roomId })
+    assert.equal(room.model, 'openai/gpt-4.1')
+  })
+})
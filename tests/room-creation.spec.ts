@@ -0,0 +1,104 @@
+// tests/room-creation.spec.ts
+import { App, Context } from 'koishi'
+import MemoryDriver from '@minatojs/driver-memory'
+import { strict as assert } from 'node:assert'
+import { BotManager } from '../src/bot-manager'
+import { ChainInterceptor } from '../src/interceptors/chain'
+import { ResolvedPersona } from '../src/types'
+import { extendChatLunaTables } from './chatluna'
+
+function createBotManager(ctx: Context): BotManager {
+  return new BotManager(ctx, [], {
+    debug: false,
+    verboseLogging: false,
+    fallbackThreshold: 3,
+    fallbackCooldown: 300,
+  })
+}
+
+function createPersona(botId: string): ResolvedPersona {
+  return {
+    botId,
+    scope: 'default',
+    preset: 'sydney',
+    model: 'openai/gpt-4o',
+    chatMode: 'chat',
+  }
+}
+
+describe('room 创建', () => {
+  let app: App
+
+  beforeEach(async () => {
+    app = new App()
+    app.plugin(MemoryDriver)
+    extendChatLunaTables(app)
+    await app.start()
+  })
+
+  afterEach(async () => {
+    await app.stop()
+  })
+
+  it('同一用户在同一群组并发的消息只创建一个 room', async () => {
+    const botManager = createBotManager(app)
+    const interceptor = new ChainInterceptor(app, botManager, { debug: false, verboseLogging: false })
+    const session = { userId: 'user1', guildId: 'guild1', username: 'user1' }
+    const persona = createPersona('onebot:10001')
+
+    const rooms = await Promise.all([
+      interceptor['getOrCreateBotSpecificRoom'](session, persona),
+      interceptor['getOrCreateBotSpecificRoom'](session, persona),
+    ])
+
+    assert.equal(rooms[0].roomId, rooms[1].roomId)
+    assert.equal((await app.database.get('chathub_room', {})).length, 1)
+
+    const bindings = await botManager.roomBindings.list('onebot:10001')
+    assert.deepEqual(bindings.map(b => [b.roomId, b.scope]), [[rooms[0].roomId, 'default']])
+
+    // 之后的消息复用已创建的 room
+    const room = await interceptor['getOrCreateBotSpecificRoom'](session, persona)
+    assert.equal(room.roomId, rooms[0].roomId)
+    assert.equal((await app.database.get('chathub_room', {})).length, 1)
+  })
+
+  it('两个 bot 同时分配 roomId 时冲突方重新分配', async () => {
+    // 内存数据库的主键检查不是原子的，这里像真实数据库一样串行化写入
+    const create = app.database.create.bind(app.database)
+    let writing: Promise<unknown> = Promise.resolve()
+    let conflicts = 0
+    app.database.create = ((table: any, data: any) => {
+      const task = writing.then(() => create(table, data))
+      writing = task.catch(() => conflicts++)
+      return task
+    }) as typeof app.database.create
+
+    // 两个 BotManager 的创建队列互不可见，模拟 ChatLuna 或另一个实例同时按 max(roomId) + 1 分配
+    const managerA = createBotManager(app)
+    const managerB = createBotManager(app)
+    const options = {
+      roomMasterId: 'user1',
+      guildId: 'guild1',
+      visibility: 'template_clone' as const,
+      preset: 'sydney',
+      model: 'openai/gpt-4o',
+    }
+
+    const [roomA, roomB] = await Promise.all([
+      managerA.createRoom({ ...options, botId: 'onebot:10001', roomName: 'guild1 (onebot:10001)' }),
+      managerB.createRoom({ ...options, botId: 'onebot:10002', roomName: 'guild1 (onebot:10002)' }),
+    ])
+
+    assert.ok(conflicts > 0, '应当触发 roomId 冲突')
+    assert.notEqual(roomA.roomId, roomB.roomId)
+
+    const rooms = await app.database.get('chathub_room', {})
+    assert.deepEqual(rooms.map(r => r.roomId).sort(), [1, 2])
+
+    const [bindingA] = await managerA.roomBindings.list('onebot:10001')
+    const [bindingB] = await managerB.roomBindings.list('onebot:10002')
+    assert.equal(bindingA.roomId, roomA.roomId)
+    assert.equal(bindingB.roomId, roomB.roomId)
+  })
+})
@@ -0,0 +1,62 @@
+// tests/usage-store.spec.ts
+import { App } from 'koishi'
+import MemoryDriver from '@minatojs/driver-memory'
+import { strict as assert } from 'node:assert'
+import { UsageStore } from '../src/usage-store'
+
+describe('用量统计', () => {
+  let app: App
+
+  beforeEach(async () => {
+    app = new App()
+    app.plugin(MemoryDriver)
+    await app.start()
+  })
+
+  afterEach(async () => {
+    await app.stop()
+  })
+
+  it('加载当月用量期间记录的用量不会丢失', async () => {
+    const store = new UsageStore(app, { prices: [] })
+    const now = new Date()
+    const date = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-01`
+    await app.database.create('charon_usage', {
+      botId: 'onebot:10001',
+      model: 'openai/gpt-4o',
+      guildId: 'guild1',
+      userId: 'user1',
+      date,
+      messages: 1,
+      inputTokens: 100,
+      outputTokens: 50,
+      estimatedMessages: 0,
+    })
+
+    // 模拟较慢的查询，加载当月用量的查询在记录写入之后才返回
+    const get = app.database.get.bind(app.database)
+    app.database.get = (async (table: any, query: any, ...args: any[]) => {
+      const rows = await get(table, query, ...args)
+      if (query?.date?.$gte) {
+        await new Promise(resolve => setTimeout(resolve, 20))
+      }
+      return rows
+    }) as typeof app.database.get
+
+    const entry = {
+      botId: 'onebot:10001',
+      model: 'openai/gpt-4o',
+      guildId: 'guild1',
+      userId: 'user2',
+      inputTokens: 10,
+      outputTokens: 5,
+      estimated: false,
+    }
+    await Promise.all([store.loadMonthly(), store.record(entry)])
+
+    const usage = store.getMonthlyUsage('onebot:10001')
+    assert.equal(usage.messages, 2)
+    assert.equal(usage.inputTokens, 110)
+    assert.equal(usage.outputTokens, 55)
+  })
+})